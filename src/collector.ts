@@ -0,0 +1,391 @@
+import { relative, resolve } from 'node:path'
+import { Transform } from 'node:stream'
+import { type CoverageSummary } from './coverage.ts'
+import {
+  type TestError,
+  type TestResult,
+  type TestResultError,
+  type TestRunResults,
+  type TestRunTotals,
+  getFullName,
+  getTestReason,
+  getTestStatus,
+  serializeTestError
+} from './results.ts'
+
+export type Callback<T> = (error?: Error | null, data?: T) => void
+
+export interface TestReportData {
+  message?: string
+  name: string
+  nesting: number
+  file?: string
+  line?: number
+  column?: number
+  success?: boolean
+  counts?: Record<string, number>
+  details?: {
+    duration_ms?: number
+    error?: Error
+    type?: 'suite' | 'test'
+  }
+  todo: boolean | string
+  skip: boolean | string
+  duration_ms?: number
+  summary?: CoverageSummary
+  tests?: Pick<TestReportData, 'name' | 'nesting' | 'file' | 'line' | 'column'>[]
+}
+
+export interface TestReport {
+  type: string
+  data: TestReportData
+}
+
+export interface CollectedTest extends TestResult {
+  diagnostics: string[]
+  children: CollectedTest[]
+}
+
+export interface CollectedFile {
+  file: string
+  completed: boolean
+  success: boolean
+  duration: number
+  diagnostics: string[]
+  tests: CollectedTest[]
+  // Set when the file fails on its own, for instance when it throws while being loaded
+  error?: TestResultError
+}
+
+export interface CollectedRun {
+  success: boolean
+  duration: number
+  totals: TestRunTotals
+  files: CollectedFile[]
+  diagnostics: string[]
+  coverage?: CoverageSummary
+}
+
+// Every event of the test runner is collected into exactly one event, which carries the original report
+export type CollectorEvent =
+  | { type: 'test'; report: TestReport; test: CollectedTest }
+  | { type: 'file'; report: TestReport; file: CollectedFile }
+  | { type: 'drained'; report: TestReport; run: CollectedRun }
+  | { type: 'event'; report: TestReport }
+
+export interface CollectorRunEvent {
+  type: 'run'
+  run: CollectedRun
+}
+
+export interface TestCollectorOptions {
+  cwd?: string
+}
+
+interface CollectorFileState {
+  file: CollectedFile
+  names: string[]
+  // Completed tests for each nesting level, waiting for their parent to complete
+  pending: CollectedTest[][]
+}
+
+function isFile(data: TestReportData): boolean {
+  return Boolean(data.file && data.file.endsWith(data.name))
+}
+
+function countTests(totals: TestRunTotals, tests: CollectedTest[]): void {
+  for (const test of tests) {
+    if (test.type === 'suite') {
+      totals.suites++
+    } else {
+      totals.tests++
+      totals[test.status]++
+    }
+
+    countTests(totals, test.children)
+  }
+}
+
+// Tests complete after their subtests, so the results are listed in completion order
+function flattenTests(tests: CollectedTest[], results: TestResult[] = []): TestResult[] {
+  for (const { diagnostics, children, ...result } of tests) {
+    flattenTests(children, results)
+    results.push(result)
+  }
+
+  return results
+}
+
+// The test runner counts a file failing on its own as a failed test, so it is reported as one
+function getFileResults({ file, duration, error }: CollectedFile): TestResult[] {
+  if (!error) {
+    return []
+  }
+
+  const status = getTestStatus(false, false, false, error.failureType)
+
+  return [{ type: 'test', name: file, fullName: file, ancestors: [], file, nesting: 0, status, duration, error }]
+}
+
+export function getRunResults({ success, duration, totals, files, coverage }: CollectedRun): TestRunResults {
+  const results: TestRunResults = {
+    success,
+    duration,
+    totals,
+    files: files.map(({ file }) => file),
+    tests: files.flatMap(file => [...flattenTests(file.tests), ...getFileResults(file)])
+  }
+
+  if (coverage) {
+    results.coverage = coverage
+  }
+
+  return results
+}
+
+export class TestCollector extends Transform {
+  #cwd: string
+  #files: Map<string, CollectorFileState>
+  #diagnostics: string[]
+  #success: boolean | null
+  #duration: number | null
+  #counts: Record<string, number> | null
+  #coverage: CoverageSummary | null
+  #startTime: number
+  #drained: boolean
+
+  constructor(options: TestCollectorOptions = {}) {
+    super({ objectMode: true })
+
+    this.#cwd = resolve(options.cwd ?? process.cwd())
+    this.#files = new Map()
+    this.#diagnostics = []
+    this.#success = null
+    this.#duration = null
+    this.#counts = null
+    this.#coverage = null
+    this.#startTime = Date.now()
+    this.#drained = false
+  }
+
+  // The results collected so far
+  get run(): CollectedRun {
+    const totals: TestRunTotals = {
+      tests: 0,
+      suites: 0,
+      passed: 0,
+      failed: 0,
+      cancelled: 0,
+      skipped: 0,
+      todo: 0,
+      files: this.#files.size
+    }
+
+    const files = [...this.#files.values()].map(state => state.file)
+
+    for (const file of files) {
+      countTests(totals, file.tests)
+
+      for (const { status } of getFileResults(file)) {
+        totals.tests++
+        totals[status]++
+      }
+    }
+
+    // The counters of the test runner are preferred, as for instance it considers timed out tests as cancelled
+    if (this.#counts) {
+      for (const name of ['tests', 'suites', 'passed', 'failed', 'cancelled', 'skipped', 'todo'] as const) {
+        totals[name] = this.#counts[name] ?? totals[name]
+      }
+    }
+
+    const run: CollectedRun = {
+      success: this.#success ?? totals.failed + totals.cancelled === 0,
+      duration: this.#duration ?? Date.now() - this.#startTime,
+      totals,
+      files,
+      diagnostics: this.#diagnostics
+    }
+
+    if (this.#coverage) {
+      run.coverage = this.#coverage
+    }
+
+    return run
+  }
+
+  collect(report: TestReport): CollectorEvent {
+    const { type, data } = report
+
+    // In watch mode, a new run always starts by enqueuing the files to rerun
+    if (this.#drained && type === 'test:enqueue') {
+      this.#reset()
+    }
+
+    switch (type) {
+      case 'test:enqueue':
+        if (data.file) {
+          this.#getFileState(data.file)
+        }
+
+        break
+      case 'test:start':
+        if (data.file && !isFile(data)) {
+          const { names } = this.#getFileState(data.file)
+
+          names.length = data.nesting
+          names.push(data.name)
+        }
+
+        break
+      case 'test:pass':
+      case 'test:fail':
+        if (!data.file) {
+          break
+        } else if (isFile(data)) {
+          return this.#completeFile(report, type === 'test:pass')
+        }
+
+        return { type: 'test', report, test: this.#collectTest(data, type === 'test:pass') }
+      case 'test:diagnostic':
+        this.#collectDiagnostic(data)
+        break
+      case 'test:summary':
+        // Recent versions of Node.js summarize each file, in place of reporting it as a test
+        if (data.file) {
+          return this.#completeFile(report, data.success!)
+        }
+
+        this.#success = data.success!
+        this.#duration = data.duration_ms ?? null
+        this.#counts = data.counts ?? null
+        break
+      case 'test:coverage':
+        this.#coverage = data.summary!
+        break
+      case 'test:watch:drained':
+        this.#drained = true
+        return { type: 'drained', report, run: this.run }
+      default:
+        break
+    }
+
+    return { type: 'event', report }
+  }
+
+  finish(): CollectedRun {
+    return this.run
+  }
+
+  _transform(report: TestReport, _encoding: string, callback: Callback<CollectorEvent>): void {
+    callback(null, this.collect(report))
+  }
+
+  _flush(callback: Callback<CollectorRunEvent>): void {
+    callback(null, { type: 'run', run: this.finish() })
+  }
+
+  #reset(): void {
+    this.#files = new Map()
+    this.#diagnostics = []
+    this.#success = null
+    this.#duration = null
+    this.#counts = null
+    this.#coverage = null
+    this.#startTime = Date.now()
+    this.#drained = false
+  }
+
+  #getFileState(file: string): CollectorFileState {
+    const path = resolve(this.#cwd, file)
+    let state = this.#files.get(path)
+
+    if (!state) {
+      const collected: CollectedFile = {
+        file: relative(this.#cwd, path),
+        completed: false,
+        success: true,
+        duration: 0,
+        diagnostics: [],
+        tests: []
+      }
+
+      state = { file: collected, names: [], pending: [collected.tests] }
+      this.#files.set(path, state)
+    }
+
+    return state
+  }
+
+  #collectTest(data: TestReportData, passed: boolean): CollectedTest {
+    const state = this.#getFileState(data.file!)
+    const error = data.details?.error as TestError | undefined
+    const ancestors = state.names.slice(0, data.nesting)
+
+    const test: CollectedTest = {
+      type: data.details?.type ?? 'test',
+      name: data.name,
+      fullName: getFullName(ancestors, data.name),
+      ancestors,
+      file: state.file.file,
+      line: data.line,
+      column: data.column,
+      nesting: data.nesting,
+      status: getTestStatus(passed, data.skip, data.todo, error?.failureType),
+      duration: data.details?.duration_ms ?? 0,
+      diagnostics: [],
+      // Subtests always complete before their parent
+      children: state.pending[data.nesting + 1] ?? []
+    }
+
+    const reason = getTestReason(data.skip, data.todo)
+
+    if (reason) {
+      test.reason = reason
+    }
+
+    if (!passed && error) {
+      test.error = serializeTestError(error)
+    }
+
+    state.pending.length = data.nesting + 1
+    state.pending[data.nesting] ??= []
+    state.pending[data.nesting].push(test)
+
+    return test
+  }
+
+  // Diagnostics of a test are reported right after it completes, with the same nesting
+  #collectDiagnostic(data: TestReportData): void {
+    if (!data.file) {
+      this.#diagnostics.push(data.message!)
+      return
+    }
+
+    const state = this.#getFileState(data.file)
+    const target = state.pending[data.nesting]?.at(-1) ?? state.file
+
+    target.diagnostics.push(data.message!)
+  }
+
+  #completeFile(report: TestReport, success: boolean): CollectorEvent {
+    const { data } = report
+    const { file } = this.#getFileState(data.file!)
+
+    if (file.completed) {
+      return { type: 'event', report }
+    }
+
+    file.completed = true
+    file.success = success
+    file.duration = data.details?.duration_ms ?? data.duration_ms ?? 0
+
+    const error = data.details?.error as TestError | undefined
+
+    if (!success && error && error.failureType !== 'subtestsFailed') {
+      file.error = serializeTestError(error)
+    }
+
+    return { type: 'file', report, file }
+  }
+}
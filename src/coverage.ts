@@ -0,0 +1,138 @@
+import { relative } from 'node:path'
+
+export type CoverageMetric = 'lines' | 'branches' | 'functions'
+
+export type CoverageThresholds = Record<CoverageMetric, number>
+
+export interface CoverageCounts {
+  totalLineCount: number
+  totalBranchCount: number
+  totalFunctionCount: number
+  coveredLineCount: number
+  coveredBranchCount: number
+  coveredFunctionCount: number
+  coveredLinePercent: number
+  coveredBranchPercent: number
+  coveredFunctionPercent: number
+}
+
+export interface CoverageFile extends CoverageCounts {
+  path: string
+  lines?: { line: number; count: number }[]
+}
+
+export interface CoverageSummary {
+  workingDirectory?: string
+  files: CoverageFile[]
+  totals: CoverageCounts
+}
+
+export interface CoverageTableOptions {
+  cwd: string
+  colors: Record<string, string>
+  thresholds: CoverageThresholds
+  onlyBelow: boolean
+}
+
+export const coverageMetrics: readonly CoverageMetric[] = ['lines', 'branches', 'functions']
+
+const percentKeys: Record<CoverageMetric, keyof CoverageCounts> = {
+  lines: 'coveredLinePercent',
+  branches: 'coveredBranchPercent',
+  functions: 'coveredFunctionPercent'
+}
+
+export function getCoveragePercent(counts: CoverageCounts, metric: CoverageMetric): number {
+  return counts[percentKeys[metric]]
+}
+
+export function getCoverageFailures(counts: CoverageCounts, thresholds: CoverageThresholds): CoverageMetric[] {
+  return coverageMetrics.filter(metric => getCoveragePercent(counts, metric) < thresholds[metric])
+}
+
+export function getUncoveredRanges(lines: CoverageFile['lines'] = []): string {
+  const ranges: string[] = []
+  let start = 0
+  let end = 0
+
+  for (const { line, count } of lines.toSorted((a, b) => a.line - b.line)) {
+    if (count > 0) {
+      continue
+    }
+
+    if (start > 0 && line === end + 1) {
+      end = line
+      continue
+    }
+
+    if (start > 0) {
+      ranges.push(start === end ? `${start}` : `${start}-${end}`)
+    }
+
+    start = line
+    end = line
+  }
+
+  if (start > 0) {
+    ranges.push(start === end ? `${start}` : `${start}-${end}`)
+  }
+
+  return ranges.join(', ')
+}
+
+export function formatCoverageTable(summary: CoverageSummary, options: CoverageTableOptions): string[] {
+  const { cwd, colors, thresholds, onlyBelow } = options
+  const { green, red, gray, bold, normal, reset } = colors
+
+  const files = onlyBelow
+    ? summary.files.filter(file => getCoverageFailures(file, thresholds).length > 0)
+    : summary.files
+
+  const rows: [string, CoverageCounts, string][] = [
+    ...files.map(
+      file => [relative(cwd, file.path), file, getUncoveredRanges(file.lines)] as [string, CoverageCounts, string]
+    ),
+    ['All files', summary.totals, '']
+  ]
+
+  const headers = ['File', 'Lines', 'Branches', 'Functions', 'Uncovered lines']
+  const cells = rows.map(([name, counts, uncovered]) => [
+    name,
+    ...coverageMetrics.map(metric => `${getCoveragePercent(counts, metric).toFixed(2)}%`),
+    uncovered
+  ])
+
+  // Compute widths before applying colors, as escape sequences do not take space
+  const widths = headers.map((header, i) => Math.max(header.length, ...cells.map(row => row[i].length)))
+  const separator = ` ${gray}|${reset} `
+
+  const last = headers.length - 1
+  const lines = [
+    headers.map((header, i) => `${bold}${i < last ? header.padEnd(widths[i]) : header}${normal}`).join(separator)
+  ]
+
+  for (let i = 0; i < rows.length; i++) {
+    const [, counts] = rows[i]
+    const isTotal = i === rows.length - 1
+
+    // Omit the uncovered lines column when empty, and never pad the last cell, to avoid trailing spaces
+    const row = cells[i][last] ? cells[i] : cells[i].slice(0, last)
+
+    const formatted = row.map((cell, j) => {
+      const padded = j < row.length - 1 ? cell.padEnd(widths[j]) : cell
+
+      if (j === 0) {
+        return isTotal ? `${bold}${padded}${normal}` : padded
+      } else if (j === last) {
+        return `${red}${padded}${reset}`
+      }
+
+      const metric = coverageMetrics[j - 1]
+      return `${getCoveragePercent(counts, metric) < thresholds[metric] ? red : green}${padded}${reset}`
+    })
+
+    lines.push(formatted.join(separator))
+  }
+
+  return lines
+}
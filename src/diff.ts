@@ -0,0 +1,257 @@
+import { inspect } from 'node:util'
+import { type LocaleName, formatMessage } from './locales.ts'
+
+export type DiffOperation = 'equal' | 'insert' | 'delete'
+
+export interface DiffEntry<T> {
+  operation: DiffOperation
+  value: T
+}
+
+export interface AssertionLikeError extends Error {
+  actual: unknown
+  expected: unknown
+  operator: string
+  code?: string
+}
+
+// Above this amount of edits the diff is not meaningful anymore, so we fallback to a full replacement
+const MAX_EDIT_DISTANCE = 1000
+// Long diffs are truncated, as they would flood the output without being readable anyway
+const MAX_DIFF_LINES = 200
+const WORD_SPLITTER = /(\s+|[^\p{L}\p{N}_\s])/u
+// Only the comparisons between an actual and an expected value are worth a diff, the other messages are kept as they are
+const DIFF_OPERATORS = new Set(['strictEqual', 'deepStrictEqual', 'deepEqual', 'equal', 'partialDeepStrictEqual'])
+
+function fallbackDiff<T>(expected: T[], actual: T[]): DiffEntry<T>[] {
+  return [
+    ...expected.map(value => ({ operation: 'delete' as const, value })),
+    ...actual.map(value => ({ operation: 'insert' as const, value }))
+  ]
+}
+
+// Myers' O(ND) difference algorithm, applied on the trimmed sequences
+function myers<T>(expected: T[], actual: T[]): DiffEntry<T>[] {
+  const n = expected.length
+  const m = actual.length
+  const max = n + m
+  const offset = max + 1
+  const current = new Int32Array(2 * max + 2)
+  // Only the diagonals reachable within each step are stored, so the memory depends on the edit distance only
+  const trace: Int32Array[] = []
+  let found = false
+
+  for (let d = 0; d <= max && !found; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return fallbackDiff(expected, actual)
+    }
+
+    trace.push(current.slice(offset - d, offset + d + 1))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && current[k - 1 + offset] < current[k + 1 + offset])
+          ? current[k + 1 + offset]
+          : current[k - 1 + offset] + 1
+      let y = x - k
+
+      while (x < n && y < m && expected[x] === actual[y]) {
+        x++
+        y++
+      }
+
+      current[k + offset] = x
+
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+  }
+
+  const result: DiffEntry<T>[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d]
+    const k = x - y
+    const previousK = k === -d || (k !== d && previous[k - 1 + d] < previous[k + 1 + d]) ? k + 1 : k - 1
+    const previousX = previous[previousK + d]
+    const previousY = previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      result.push({ operation: 'equal', value: expected[--x] })
+      y--
+    }
+
+    if (d > 0) {
+      if (x === previousX) {
+        result.push({ operation: 'insert', value: actual[--y] })
+      } else {
+        result.push({ operation: 'delete', value: expected[--x] })
+      }
+    }
+  }
+
+  return result.reverse()
+}
+
+export function diff<T>(expected: T[], actual: T[]): DiffEntry<T>[] {
+  let start = 0
+  let expectedEnd = expected.length
+  let actualEnd = actual.length
+
+  while (start < expectedEnd && start < actualEnd && expected[start] === actual[start]) {
+    start++
+  }
+
+  while (expectedEnd > start && actualEnd > start && expected[expectedEnd - 1] === actual[actualEnd - 1]) {
+    expectedEnd--
+    actualEnd--
+  }
+
+  return [
+    ...expected.slice(0, start).map(value => ({ operation: 'equal' as const, value })),
+    ...myers(expected.slice(start, expectedEnd), actual.slice(start, actualEnd)),
+    ...expected.slice(expectedEnd).map(value => ({ operation: 'equal' as const, value }))
+  ]
+}
+
+export function isAssertionError(error: unknown): error is AssertionLikeError {
+  return (
+    error instanceof Error &&
+    'actual' in error &&
+    'expected' in error &&
+    DIFF_OPERATORS.has((error as AssertionLikeError).operator)
+  )
+}
+
+export function serializeValue(value: unknown): string {
+  return inspect(value, { colors: false, compact: false, depth: Infinity, sorted: true, breakLength: Infinity })
+}
+
+export function formatWordsDiff(expected: string, actual: string, colors: Record<string, string>): string[] {
+  const { green, red, inverse, noInverse, reset } = colors
+  let expectedLine = `${red}- `
+  let actualLine = `${green}+ `
+
+  for (const { operation, value } of diff(expected.split(WORD_SPLITTER), actual.split(WORD_SPLITTER))) {
+    switch (operation) {
+      case 'equal':
+        expectedLine += value
+        actualLine += value
+        break
+      case 'delete':
+        expectedLine += inverse + value + noInverse
+        break
+      case 'insert':
+        actualLine += inverse + value + noInverse
+        break
+    }
+  }
+
+  return [expectedLine + reset, actualLine + reset]
+}
+
+export function formatLinesDiff(
+  expected: string,
+  actual: string,
+  colors: Record<string, string>,
+  context: number,
+  locale: LocaleName = 'en'
+): string[] {
+  const { green, red, gray, reset } = colors
+  const entries = diff(expected.split(/\r?\n/), actual.split(/\r?\n/))
+  const lines: string[] = []
+
+  // Mark which unchanged lines are close enough to a change to be shown
+  const visible = entries.map(() => false)
+  for (let i = 0; i < entries.length; i++) {
+    if (entries[i].operation === 'equal') {
+      continue
+    }
+
+    for (let j = Math.max(0, i - context); j <= Math.min(entries.length - 1, i + context); j++) {
+      visible[j] = true
+    }
+  }
+
+  let hidden = 0
+  for (let i = 0; i < entries.length; i++) {
+    const { operation, value } = entries[i]
+
+    if (operation === 'equal' && !visible[i]) {
+      hidden++
+      continue
+    }
+
+    if (hidden > 0) {
+      lines.push(`${gray}${formatMessage(locale, 'unchangedLines', { count: hidden })}${reset}`)
+      hidden = 0
+    }
+
+    switch (operation) {
+      case 'equal':
+        lines.push(`  ${value}`)
+        break
+      case 'delete':
+        lines.push(`${red}- ${value}${reset}`)
+        break
+      case 'insert':
+        lines.push(`${green}+ ${value}${reset}`)
+        break
+    }
+  }
+
+  if (hidden > 0) {
+    lines.push(`${gray}${formatMessage(locale, 'unchangedLines', { count: hidden })}${reset}`)
+  }
+
+  if (lines.length > MAX_DIFF_LINES) {
+    const omitted = lines.length - MAX_DIFF_LINES
+    lines.length = MAX_DIFF_LINES
+    lines.push(`${gray}${formatMessage(locale, 'moreLines', { count: omitted })}${reset}`)
+  }
+
+  return lines
+}
+
+export function formatAssertionError(
+  error: AssertionLikeError,
+  colors: Record<string, string>,
+  context: number,
+  locale: LocaleName = 'en'
+): string {
+  const { green, red, reset } = colors
+  const { actual, expected } = error
+
+  // The rest of the message is Node's own rendering of the values, which is replaced by the diff below
+  const header = `${error.name}${error.code ? ` [${error.code}]` : ''}: ${error.message.split(/\r?\n/)[0]}`
+
+  const strings = typeof actual === 'string' && typeof expected === 'string'
+
+  let lines: string[]
+  if (strings && !actual.includes('\n') && !expected.includes('\n')) {
+    lines = formatWordsDiff(expected, actual, colors)
+  } else {
+    lines = formatLinesDiff(
+      strings ? (expected as string) : serializeValue(expected),
+      strings ? (actual as string) : serializeValue(actual),
+      colors,
+      context,
+      locale
+    )
+  }
+
+  const frames = (error.stack ?? '').split(/\r?\n/).filter(line => /^\s+at /.test(line))
+
+  return [
+    header,
+    '',
+    `${green}${formatMessage(locale, 'diffActual')}${reset} ${red}${formatMessage(locale, 'diffExpected')}${reset}`,
+    '',
+    ...lines,
+    ...(frames.length ? ['', ...frames] : [])
+  ].join('\n')
+}
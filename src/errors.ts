@@ -0,0 +1,92 @@
+import { inspect } from 'node:util'
+import { formatAssertionError, isAssertionError } from './diff.ts'
+import { type LocaleName, formatMessage } from './locales.ts'
+
+export interface ErrorFormatOptions {
+  locale: LocaleName
+  colors: Record<string, string>
+  diffContext: number
+  // How many levels of causes and aggregated errors are rendered
+  depth: number
+}
+
+type ErrorLike = Error & { errors?: unknown; cause?: unknown }
+
+// These are rendered as part of the header, the stack or the nested sections
+const STRUCTURAL_PROPERTIES = new Set(['name', 'message', 'stack', 'cause', 'errors'])
+
+function inspectValue(value: unknown, depth: number): string {
+  return inspect(value, { colors: false, customInspect: true, depth, breakLength: Infinity })
+}
+
+export function getErrorHeader(error: Error): string {
+  return error.message ? `${error.name}: ${error.message}` : error.name
+}
+
+export function getErrorProperties(error: Error): [name: string, value: string][] {
+  return Object.keys(error)
+    .filter(name => !STRUCTURAL_PROPERTIES.has(name))
+    .map(name => [name, inspectValue(error[name as keyof Error], 2)])
+}
+
+// The first line is placed after the label, the others are indented below it
+function nest(label: string, lines: string[]): string[] {
+  const indentation = ' '.repeat(label.length - label.trimStart().length + 2)
+
+  return [label + lines[0], ...lines.slice(1).map(line => (line ? indentation + line : line))]
+}
+
+function formatThrown(value: unknown, options: ErrorFormatOptions, level: number, seen: Set<unknown>): string[] {
+  if (typeof value === 'string') {
+    return value.split(/\r?\n/)
+  } else if (!(value instanceof Error)) {
+    return inspectValue(value, options.depth).split(/\r?\n/)
+  } else if (seen.has(value)) {
+    return [`[Circular] ${getErrorHeader(value)}`]
+  }
+
+  seen.add(value)
+
+  const error = value as ErrorLike
+  const lines = isAssertionError(error)
+    ? formatAssertionError(error, options.colors, options.diffContext, options.locale).split(/\r?\n/)
+    : [
+        ...getErrorHeader(error).split(/\r?\n/),
+        ...(error.stack ?? '').split(/\r?\n/).filter(line => /^\s+at /.test(line))
+      ]
+
+  if (!isAssertionError(error)) {
+    for (const [name, property] of getErrorProperties(error)) {
+      lines.push(`  ${name}: ${property}`)
+    }
+  }
+
+  if (level < options.depth) {
+    lines.push(...formatNested(error, options, level, seen))
+  }
+
+  // Only the errors being rendered are cycles, the same error can appear in different branches
+  seen.delete(value)
+  return lines
+}
+
+function formatNested(error: ErrorLike, options: ErrorFormatOptions, level: number, seen: Set<unknown>): string[] {
+  const lines: string[] = []
+
+  if (Array.isArray(error.errors)) {
+    for (const [i, inner] of error.errors.entries()) {
+      lines.push(...nest(`  [${i + 1}] `, formatThrown(inner, options, level + 1, seen)))
+    }
+  }
+
+  if (error.cause !== undefined) {
+    const label = `  ${formatMessage(options.locale, 'causedBy')} `
+    lines.push(...nest(label, formatThrown(error.cause, options, level + 1, seen)))
+  }
+
+  return lines
+}
+
+export function formatError(error: unknown, options: ErrorFormatOptions): string {
+  return formatThrown(error, options, 0, new Set()).join('\n')
+}
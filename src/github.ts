@@ -0,0 +1,82 @@
+import { relative } from 'node:path'
+import { type LocaleName, formatLocalizedDuration, formatMessage } from './locales.ts'
+import { type TestResult, isOwnFailure } from './results.ts'
+import { parseStackFrame } from './stack.ts'
+
+export type GitHubAnnotationType = 'failures' | 'slow' | 'todo'
+
+export type GitHubAnnotationLevel = 'error' | 'warning' | 'notice'
+
+export interface GitHubAnnotationsOptions {
+  cwd: string
+  types: GitHubAnnotationType[]
+  slowThreshold: number
+  locale: LocaleName
+}
+
+export const gitHubAnnotationTypes: readonly GitHubAnnotationType[] = ['failures', 'slow', 'todo']
+
+export function escapeAnnotationData(value: string): string {
+  return value.replaceAll('%', '%25').replaceAll('\r', '%0D').replaceAll('\n', '%0A')
+}
+
+export function escapeAnnotationProperty(value: string): string {
+  return escapeAnnotationData(value).replaceAll(':', '%3A').replaceAll(',', '%2C')
+}
+
+export function formatAnnotation(
+  level: GitHubAnnotationLevel,
+  message: string,
+  properties: Record<string, string | number | undefined> = {}
+): string {
+  const serialized = Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${escapeAnnotationProperty(String(value))}`)
+    .join(',')
+
+  return `::${level}${serialized ? ' ' + serialized : ''}::${escapeAnnotationData(message)}`
+}
+
+// Point to the line which actually failed in the test file rather than to the test declaration, when possible
+function getFailureLocation(test: TestResult, cwd: string): Pick<TestResult, 'line' | 'column'> {
+  for (const line of test.error?.stack?.split(/\r?\n/) ?? []) {
+    const frame = parseStackFrame(line)
+
+    if (frame?.file && relative(cwd, frame.file).replaceAll('\\', '/') === test.file) {
+      return { line: frame.line, column: frame.column }
+    }
+  }
+
+  return { line: test.line, column: test.column }
+}
+
+export function formatGitHubAnnotations(tests: TestResult[], options: GitHubAnnotationsOptions): string[] {
+  const { cwd, types, slowThreshold, locale } = options
+  const annotations: string[] = []
+
+  for (const test of tests) {
+    const properties = { file: test.file, line: test.line, col: test.column, title: test.fullName }
+
+    if (test.status === 'failed' || test.status === 'cancelled') {
+      // Failures of subtests are already annotated on their own
+      if (!types.includes('failures') || !isOwnFailure(test)) {
+        continue
+      }
+
+      const { line, column } = getFailureLocation(test, cwd)
+      const message = test.error?.description ?? test.error?.message ?? 'Test failed.'
+
+      annotations.push(formatAnnotation('error', message, { ...properties, line, col: column }))
+    } else if (test.status === 'todo') {
+      if (types.includes('todo')) {
+        annotations.push(formatAnnotation('notice', test.reason ?? 'Test marked as TODO.', properties))
+      }
+    } else if (types.includes('slow') && slowThreshold > 0 && test.duration >= slowThreshold) {
+      const message = formatMessage(locale, 'slowTest', { duration: formatLocalizedDuration(locale, test.duration) })
+
+      annotations.push(formatAnnotation('warning', message, properties))
+    }
+  }
+
+  return annotations
+}
@@ -0,0 +1,157 @@
+import { readFileSync } from 'node:fs'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { type TestResult, type TestStatus } from './results.ts'
+
+export interface HistoryTest {
+  file: string
+  name: string
+  status: TestStatus
+  duration: number
+}
+
+export interface HistoryRun {
+  date: string
+  tests: HistoryTest[]
+}
+
+export interface RunHistory {
+  runs: HistoryRun[]
+}
+
+export interface FlakyTest {
+  test: TestResult
+  changes: number
+  runs: number
+}
+
+export interface DurationRegression {
+  test: TestResult
+  average: number
+}
+
+export interface HistoryAnalysis {
+  newlyFailing: TestResult[]
+  newlyFixed: TestResult[]
+  flaky: FlakyTest[]
+  regressions: DurationRegression[]
+}
+
+// A test is slower only if it takes at least 50% and 50ms more than its average, to ignore the usual noise
+const REGRESSION_RATIO = 1.5
+const REGRESSION_MINIMUM = 50
+
+function getHistoryKey(test: { file: string; name: string }): string {
+  return `${test.file}:${test.name}`
+}
+
+// Skipped and TODO tests do not tell anything about the health of the test
+function getOutcome(status: TestStatus): 'passed' | 'failed' | null {
+  switch (status) {
+    case 'passed':
+      return 'passed'
+    case 'failed':
+    case 'cancelled':
+      return 'failed'
+    default:
+      return null
+  }
+}
+
+// Parents which only failed because of their subtests would duplicate the information of the subtests
+function getHistoryTests(tests: TestResult[]): TestResult[] {
+  return tests.filter(test => test.error?.failureType !== 'subtestsFailed')
+}
+
+export function readHistory(path: string): RunHistory {
+  try {
+    const history = JSON.parse(readFileSync(path, 'utf-8')) as RunHistory
+
+    if (Array.isArray(history.runs)) {
+      return history
+    }
+  } catch {
+    // A missing or corrupted history is simply started again
+  }
+
+  return { runs: [] }
+}
+
+export function createHistoryRun(tests: TestResult[], date: Date = new Date()): HistoryRun {
+  return {
+    date: date.toISOString(),
+    tests: getHistoryTests(tests).map(({ file, fullName, status, duration }) => ({
+      file,
+      name: fullName,
+      status,
+      duration
+    }))
+  }
+}
+
+export function appendHistoryRun(history: RunHistory, run: HistoryRun, size: number): RunHistory {
+  return { runs: [...history.runs, run].slice(-size) }
+}
+
+export function analyzeHistory(history: RunHistory, tests: TestResult[]): HistoryAnalysis {
+  const analysis: HistoryAnalysis = { newlyFailing: [], newlyFixed: [], flaky: [], regressions: [] }
+
+  // Index the previous runs, from the oldest to the newest
+  const previous = new Map<string, HistoryTest[]>()
+
+  for (const run of history.runs) {
+    for (const test of run.tests) {
+      const key = getHistoryKey(test)
+      let entries = previous.get(key)
+
+      if (!entries) {
+        entries = []
+        previous.set(key, entries)
+      }
+
+      entries.push(test)
+    }
+  }
+
+  for (const test of getHistoryTests(tests)) {
+    const entries = previous.get(getHistoryKey({ file: test.file, name: test.fullName }))
+    const outcome = getOutcome(test.status)
+
+    if (!entries || !outcome) {
+      continue
+    }
+
+    const outcomes = [...entries.map(entry => getOutcome(entry.status)), outcome].filter(Boolean)
+    let changes = 0
+
+    for (let i = 1; i < outcomes.length; i++) {
+      if (outcomes[i] !== outcomes[i - 1]) {
+        changes++
+      }
+    }
+
+    // Tests which are broken and then fixed change status twice, more changes mean they are not reliable
+    if (changes > 2) {
+      analysis.flaky.push({ test, changes, runs: outcomes.length })
+    } else if (outcomes.length > 1 && outcomes.at(-2) !== outcome) {
+      analysis[outcome === 'failed' ? 'newlyFailing' : 'newlyFixed'].push(test)
+    }
+
+    const durations = entries.filter(entry => entry.status === 'passed').map(entry => entry.duration)
+
+    if (outcome === 'passed' && durations.length > 0) {
+      const average = durations.reduce((total, duration) => total + duration, 0) / durations.length
+
+      if (test.duration >= average * REGRESSION_RATIO && test.duration - average >= REGRESSION_MINIMUM) {
+        analysis.regressions.push({ test, average })
+      }
+    }
+  }
+
+  return analysis
+}
+
+export async function writeHistory(path: string, history: RunHistory): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify(history) + '\n', 'utf-8')
+}
@@ -1,95 +1,211 @@
-import { relative } from 'node:path'
-import { Transform } from 'node:stream'
-import { inspect } from 'node:util'
-
-export interface TestError extends Error {
-  code: string
-  failureType: string
-  cause: Error | string
+import { relative, resolve } from 'node:path'
+import {
+  type CollectedFile,
+  type CollectedRun,
+  type CollectedTest,
+  type CollectorEvent,
+  type TestReportData,
+  getRunResults
+} from './collector.ts'
+import {
+  type CoverageMetric,
+  type CoverageSummary,
+  formatCoverageTable,
+  getCoverageFailures,
+  getCoveragePercent
+} from './coverage.ts'
+import { formatError } from './errors.ts'
+import { formatGitHubAnnotations } from './github.ts'
+import {
+  type HistoryAnalysis,
+  type RunHistory,
+  analyzeHistory,
+  appendHistoryRun,
+  createHistoryRun,
+  readHistory,
+  writeHistory
+} from './history.ts'
+import { writeJUnit } from './junit.ts'
+import { type MessageName, formatList, formatLocalizedDuration, formatMessage } from './locales.ts'
+import { formatMarkdownReport, writeMarkdown } from './markdown.ts'
+import {
+  type HideableTestStatus,
+  type ListableTestStatus,
+  type OutputSection,
+  type ResolvedTestReporterOptions,
+  type TestReporterOptions,
+  hideableTestStatuses,
+  listableTestStatuses,
+  resolveOptions,
+  resolveTerminal
+} from './options.ts'
+import { RendererReporter } from './renderer.ts'
+import { escapeRegExp, formatRerunCommand, formatTestNamePattern } from './rerun.ts'
+import {
+  type TestError,
+  type TestResult,
+  type TestRunResults,
+  type TestStatus,
+  describeFailure,
+  writeResults
+} from './results.ts'
+import { cleanStack } from './stack.ts'
+import { truncateLine, wrapLine } from './utils.ts'
+
+export * from './collector.ts'
+export * from './coverage.ts'
+export * from './diff.ts'
+export * from './errors.ts'
+export * from './github.ts'
+export * from './history.ts'
+export * from './junit.ts'
+export * from './locales.ts'
+export * from './markdown.ts'
+export * from './options.ts'
+export * from './renderer.ts'
+export * from './rerun.ts'
+export * from './results.ts'
+export * from './stack.ts'
+export * from './themes.ts'
+export * from './utils.ts'
+
+interface PendingOutput {
+  level: number
+  message: string
 }
 
-export type Callback<T> = (error?: Error | null, data?: T) => void
-
-export interface TestReportData {
-  message?: string
+interface RunningTest {
   name: string
-  nesting: number
-  file?: string
   line?: number
-  column?: number
-  success?: boolean
-  counts?: Record<string, number>
-  details?: {
-    duration_ms?: number
-    error?: Error
-  }
-  todo: boolean | string
-  skip: boolean
-  duration_ms?: number
+  startTime: number
+  output: string[]
 }
 
-export interface TestReport {
-  type: string
-  data: TestReportData
+interface InFlightTest {
+  fullName: string
+  file: string
+  line?: number
+  duration?: number
 }
 
-const SUBTESTS_FAILED = /^(\d+) subtest(s)? failed$/
-const FAILED_HOOK_MATCHER = /failed running (.+) hook/
-const SUMMARY_MATCHER = /(tests|suites|pass|fail|cancelled|skipped|todo|duration_ms)\s+(\d+(\.\d+)?)/
+interface FileState {
+  executing: string[]
+  running: RunningTest[]
+  output: Map<string, string[][]>
+  unattributed: string[]
+  nesting: number
+  diagnosticShown: boolean
+  pending: PendingOutput[]
+  hidden: boolean
+  started: boolean
+  completed: boolean
+  buffer: string
+}
 
-export function pastBeingVerb(count: number): string {
-  return count === 1 ? 'was' : 'were'
+interface FailedTest {
+  test: CollectedTest
+  // The collected parents of the test, from the outermost one
+  parents: CollectedTest[]
 }
 
-export function pluralize(word: string, count: number): string {
-  return `${word}${count > 1 || (count > 0 && count < 1) ? 's' : ''}`
+// Only failures which are not caused by subtests are numbered, starting from 1
+interface NumberedFailure {
+  number: number
+  // The serialized error of the results has no assertion diff, so the original error is kept
+  error: TestError
 }
 
-export function formatDuration(duration: number): string {
-  duration /= 1000
-  const message = []
+interface ProgressState extends Record<TestStatus, number> {
+  total: number
+  column: number
+  startTime: number
+}
 
-  if (duration >= 3600) {
-    const hours = Math.floor(duration / 3600)
-    message.push(`${hours} ${pluralize('hour', hours)}`)
-    duration = duration % 3600
-  }
+const SUMMARY_MATCHER = /(tests|suites|pass|fail|cancelled|skipped|todo|duration_ms)\s+(\d+(\.\d+)?)/
+
+// Placeholder for the separator between files, which depends on the order in which the output is eventually shown
+const FILE_SEPARATOR = '\u0000'
+
+const progressSymbols: Record<TestStatus, [symbol: string, color: string]> = {
+  passed: ['.', 'green'],
+  failed: ['F', 'red'],
+  cancelled: ['F', 'red'],
+  skipped: ['s', 'gray'],
+  todo: ['t', 'blue']
+}
+
+// Moves to the start of the line and erases it, so that it can be drawn again
+const CLEAR_LINE = '\r\u001b[2K'
 
-  if (duration >= 60) {
-    const minutes = Math.floor(duration / 60)
-    message.push(`${minutes} ${pluralize('minute', minutes)}`)
-    duration = duration % 60
+// The status line is redrawn periodically, in order to update the elapsed times even when no event is received
+const STATUS_LINE_INTERVAL = 1000
+
+const routedEvents = new Set(['test:start', 'test:pass', 'test:fail', 'test:diagnostic', 'test:stdout', 'test:stderr'])
+
+// Failing TODO tests are reported as failures too, even though they do not fail the run
+function hasOwnFailure({ error }: CollectedTest): boolean {
+  return error !== undefined && error.failureType !== 'subtestsFailed'
+}
+
+// Parents complete after their subtests, so the failures are listed in completion order
+function collectFailedTests(
+  tests: CollectedTest[],
+  parents: CollectedTest[] = [],
+  failed: FailedTest[] = []
+): FailedTest[] {
+  for (const test of tests) {
+    collectFailedTests(test.children, [...parents, test], failed)
+
+    if (test.error) {
+      failed.push({ test, parents })
+    }
   }
 
-  message.push(`${duration.toFixed(Math.round(duration) !== duration ? 3 : 0)} ${pluralize('second', duration)}`)
+  return failed
+}
 
-  return niceJoin(message)
+// Skipped and TODO tests do not run, or are not expected to work yet
+function isExecuted(test: CollectedTest): boolean {
+  return test.status !== 'skipped' && test.status !== 'todo'
 }
 
-export function niceJoin(array: string[], lastSeparator: string = ' and ', separator: string = ', '): string {
-  switch (array.length) {
-    case 0:
-      return ''
-    case 1:
-      return array[0]
-    case 2:
-      return array.join(lastSeparator)
-    default:
-      return array.slice(0, -1).join(separator) + lastSeparator + array.at(-1)!
+// Tests with subtests are not timed as their duration includes the one of their subtests
+function collectTimedTests(tests: CollectedTest[], timed: CollectedTest[] = []): CollectedTest[] {
+  for (const test of tests) {
+    if (test.children.length > 0) {
+      collectTimedTests(test.children, timed)
+    } else if (test.type === 'test' && isExecuted(test)) {
+      timed.push(test)
+    }
   }
+
+  return timed
 }
 
-export class TestReporter extends Transform {
+// The default renderer, which shows the tests tree
+export class TestReporter extends RendererReporter {
+  #options: ResolvedTestReporterOptions
   #cwd: string
   #colors: Record<string, string>
-  #success: boolean
-  #counters: Record<string, number>
-  #files: Set<string>
-  #failures: Map<string, (TestReportData & { fullName: string })[]>
-  #executing: string[]
-  #nesting: number
-  #currentFile: string
-  #diagnosticShown: boolean
+  #symbols: Record<string, string>
+  #failures: Map<CollectedTest, NumberedFailure>
+  #states: Map<string, FileState>
+  #state: FileState
+  #activeState: FileState | null
+  #started: boolean
+  #shownFiles: number
+  #sources: Map<string, string[] | null>
+  #history: RunHistory | null
+  #inFlight: InFlightTest[] | null
+  #watchRuns: number
+  #drained: boolean
+  #progressLine: boolean
+  #progress: ProgressState
+  #statusLine: boolean
+  #terminal: boolean
+  #statusShown: boolean
+  #statusTimer: NodeJS.Timeout | null
+  #details: string
 
   static symbols: Record<string, string> = {
     fail: '\u2716 ',
@@ -111,6 +227,8 @@ export class TestReporter extends Transform {
     clear: '\u001bc',
     bold: '\u001b[1m',
     normal: '\u001b[22m',
+    inverse: '\u001b[7m',
+    noInverse: '\u001b[27m',
     reset: '\u001b[0m'
   }
 
@@ -129,141 +247,590 @@ export class TestReporter extends Transform {
     undefined: 'grey'
   }
 
-  constructor() {
-    super({ writableObjectMode: true })
+  constructor(options: TestReporterOptions = {}) {
+    const resolved = resolveOptions(options, TestReporter.symbols)
 
-    /* c8 ignore next - else */
-    this.#cwd = process.env.TEST_ROOT ?? process.cwd()
-    this.#success = true
-    this.#counters = {}
-    this.#files = new Set()
+    super(null, { cwd: resolved.cwd })
+
+    this.#options = resolved
+    this.#cwd = this.#options.cwd
+    this.#symbols = this.#options.symbols as Record<string, string>
     this.#failures = new Map()
-    this.#executing = []
-    this.#nesting = 0
-    this.#currentFile = ''
-    this.#diagnosticShown = false
+    this.#states = new Map()
+    this.#state = this.#createFileState()
+    this.#activeState = null
+    this.#started = false
+    this.#shownFiles = 0
+    this.#sources = new Map()
+    this.#history = null
+    this.#inFlight = null
+    this.#watchRuns = 0
+    this.#drained = false
+    this.#terminal = resolveTerminal(this.#options.terminal)
+    this.#progressLine = this.#options.mode === 'dots' && this.#terminal
+    this.#progress = this.#createProgress()
+    this.#statusLine = this.#options.statusLine && this.#options.mode === 'tree' && this.#terminal
+    this.#statusShown = false
+    this.#statusTimer = null
+    this.#details = ''
+
+    // In the compact mode, the tests tree only contains the failed tests and it is shown at the end
+    if (this.#options.mode === 'dots') {
+      this.#options.hideTests = [...hideableTestStatuses]
+    }
 
     if (
-      process.env.FORCE_COLOR === 'true' ||
+      this.#options.color === 'always' ||
       /* c8 ignore next - else */
-      (process.env.NO_COLOR !== 'true' && process.stderr.isTTY && process.stderr.getColorDepth() > 2)
+      (this.#options.color === 'auto' && process.stderr.isTTY && process.stderr.getColorDepth() > 2)
     ) {
-      this.#colors = TestReporter.colors
+      this.#colors = { ...TestReporter.colors, ...this.#options.colors }
     } else {
       this.#colors = Object.fromEntries(Object.keys(TestReporter.colors).map(key => [key, '']))
     }
   }
 
-  _transform({ type, data }: TestReport, _encoding: string, callback: Callback<string>): void {
+  render(event: CollectorEvent): string {
+    const { type, data } = event.report
     let message = ''
 
+    // Output events and the summaries of the files may report the file relative to the working directory
+    if (data?.file && (type === 'test:stdout' || type === 'test:stderr' || type === 'test:summary')) {
+      data.file = resolve(this.#cwd, data.file)
+    }
+
+    // Tests are rendered from their collected results, while files are completed either by their own test or, since Node 22, by their own summary
+    const test = event.type === 'test' ? event.test : null
+    const completedFile = event.type === 'file' ? event.file : null
+
+    // When files run concurrently their events interleave, so each file keeps its own state and output
+    const state = data?.file && (routedEvents.has(type) || completedFile) ? this.#getFileState(data.file) : null
+
+    if (state) {
+      this.#state = state
+    }
+
+    // In watch mode, a new run always starts by enqueuing the files to rerun
+    if (this.#drained && type === 'test:enqueue') {
+      message = this.#startWatchRun()
+    }
+
     switch (type) {
-      case 'test:enqueue':
-        if (!this.#files.has(data.file!)) {
-          this.#files.add(data.file!)
-        }
+      case 'test:dequeue':
+        this.#handleTestDequeue(data)
+        break
+      case 'test:complete':
+        this.#handleTestComplete(data)
         break
-      /* c8 ignore next 4 */
       case 'test:stderr':
       case 'test:stdout':
-        message = data.message!
+        message = this.#handleTestOutput(data, type === 'test:stderr')
         break
       case 'test:start':
-        message = this.#handleTestStart(data)
+        message = this.#filterSection('tests', this.#wrap(this.#handleTestStart(data)))
         break
       case 'test:pass':
-        if (!this.#isFile(data)) {
-          message = this.#handleTestEnd(data, true)
+        if (test) {
+          message = this.#filterSection('tests', this.#wrap(this.#handleTestEnd(data, true, test)))
         }
 
         break
       case 'test:fail':
-        message = this.#handleTestEnd(data, false)
+        message = this.#filterSection('tests', this.#wrap(this.#handleTestEnd(data, false, test)))
         break
       case 'test:diagnostic':
-        message = this.#handleDiagnostic(data)
+        message = this.#wrap(this.#handleDiagnostic(data))
+        break
+      case 'test:watch:drained':
+        message = event.type === 'drained' ? this.#handleWatchDrained(event.run) : ''
         break
-      case 'test:summary':
-        this.#success = data.success!
+      case 'test:interrupted':
+        this.#handleInterrupted(data)
         break
       default:
         break
     }
 
-    callback(null, message + this.#colors.reset)
+    if (state && completedFile) {
+      message = this.#formatFileOutput(state, completedFile.success) + message
+    }
+
+    message = this.#routeOutput(state, message)
+
+    if (state && completedFile) {
+      state.completed = true
+
+      if (state === this.#activeState) {
+        message += this.#switchFile()
+      }
+    }
+
+    const status = this.#updateProgress(type, data, test)
+
+    if (this.#options.mode === 'dots') {
+      if (state) {
+        this.#details += message + this.#colors.reset
+        message = ''
+      }
+
+      message += this.#formatProgress(status)
+    } else if (this.#statusLine) {
+      // The status line is always the last line, so it is removed before any output and then drawn again below it
+      message = this.#clearStatusLine() + message + this.#colors.reset + this.#drawStatusLine()
+    }
+
+    return message + this.#colors.reset
   }
 
-  _flush(callback: Callback<string>): void {
-    const { normal, blue, green, red, gray, reset, bold } = this.#colors
-    const { rightArrow, fail } = TestReporter.symbols
+  async finish(run: CollectedRun): Promise<string> {
+    const results = getRunResults(run)
 
-    // No file were executed
-    if (!this.#currentFile) {
-      callback(null, `\n${blue}${rightArrow}No tests to run or all test might have been skipped or excluded.\n\n`)
-      return
+    // An interrupted run never succeeds, even if none of the completed tests failed
+    if (this.#inFlight !== null) {
+      results.success = false
     }
 
-    let message = '\n'
-    const { duration_ms: duration, pass: passed, tests, skipped, todo, cancelled } = this.#counters
-    const files = this.#files.size
+    // The last watch run has already been summarized
+    const message = this.#drained
+      ? ''
+      : this.#finishTests(run) + this.#formatSummary(run, results) + this.#formatAnnotations(results.tests)
 
-    const todoMessage = todo > 0 ? ` (including ${bold}${todo} ${pluralize('TODO', passed)}${normal})` : ''
-    message += `${blue}${rightArrow}${bold}Execution ${bold}`
-    message += this.#success ? `${green}PASSED` : `${red}FAILED`
-    message += reset + blue + ` after ${bold}${formatDuration(duration)}${normal}`
-    message += ` with ${bold}${passed + todo} ${pluralize('test', passed + todo)}${normal}${todoMessage} passing out of ${bold}${tests} ${pluralize('test', tests)}${normal} over ${bold}${files} ${pluralize('file', files)}${normal}`
+    await this.#writeReports(results)
+    return message
+  }
+
+  #formatSummary(run: CollectedRun, results: TestRunResults): string {
+    const { normal, blue, green, red, yellow, gray, reset, bold } = this.#colors
+    const { rightArrow, fail } = this.#symbols
+    const { sections } = this.#options
 
-    if (skipped > 0 || todo > 0 || cancelled > 0) {
-      const nonExecuted = []
+    // No file were executed
+    if (!this.#started) {
+      return this.#filterSection('summary', `\n${blue}${rightArrow}${this.#message('noTests')}\n\n`)
+    }
+
+    let message = ''
+    // When interrupted, only the completed tests are counted
+    const interrupted = this.#inFlight !== null
+    const { duration, coverage } = results
+    const { passed, tests, skipped, todo, cancelled, files } = results.totals
+
+    const coverageFailures =
+      coverage && this.#options.coverageEnforce
+        ? getCoverageFailures(coverage.totals, this.#options.coverageThresholds)
+        : []
+
+    if (coverageFailures.length > 0) {
+      results.success = false
+      process.exitCode = 1
+    }
 
-      if (skipped > 0) {
-        nonExecuted.push(`${bold}${skipped} ${pluralize('test', skipped)}${normal} ${pastBeingVerb(skipped)} skipped`)
+    if (sections.includes('summary')) {
+      const [status, statusColor]: [MessageName, string] = interrupted
+        ? ['interrupted', yellow]
+        : results.success
+          ? ['passed', green]
+          : ['failed', red]
+
+      const including =
+        todo > 0
+          ? this.#message('summaryIncluding', { todos: `${bold}${this.#message('todos', { count: todo })}${normal}` })
+          : ''
+
+      message += `\n${blue}${rightArrow}${bold}`
+      message += this.#message('summary', {
+        count: passed + todo,
+        status: `${bold}${statusColor}${this.#message(status)}${reset}${blue}`,
+        duration: `${bold}${this.#formatDuration(duration)}${normal}`,
+        passing: `${bold}${this.#message('tests', { count: passed + todo })}${normal}`,
+        including,
+        total: `${bold}${this.#message(interrupted ? 'completedTests' : 'tests', { count: tests })}${normal}`,
+        files: `${bold}${this.#message('files', { count: files })}${normal}`
+      })
+
+      if (skipped > 0 || todo > 0 || cancelled > 0) {
+        const nonExecuted = this.#formatNonExecutedCounts(skipped, cancelled)
+
+        if (nonExecuted) {
+          message += ' (' + nonExecuted + ').'
+        }
+      } else {
+        message += '.'
       }
 
-      if (cancelled > 0) {
-        nonExecuted.push(
-          `${bold}${cancelled} ${pluralize('test', cancelled)}${normal} ${pastBeingVerb(cancelled)} cancelled`
-        )
+      message += '\n'
+    }
+
+    if (interrupted && this.#inFlight!.length > 0) {
+      message += this.#formatInFlight()
+    }
+
+    if (sections.includes('coverage') && coverage) {
+      message += this.#formatCoverage(coverage, coverageFailures)
+    }
+
+    const timedTests = run.files.flatMap(file => collectTimedTests(file.tests))
+
+    if (sections.includes('slowest') && this.#options.slowestCount > 0 && timedTests.length > 0) {
+      message += this.#formatSlowest(timedTests, run.files)
+    }
+
+    // Watch runs only execute the changed files, so they are never compared with the history
+    if (this.#options.history) {
+      const analysis = this.#recordHistory(results.tests)
+
+      if (sections.includes('summary')) {
+        message += this.#formatHistory(analysis)
       }
+    }
 
-      if (nonExecuted.length > 0) {
-        message += ' (' + niceJoin(nonExecuted) + ').'
+    if (sections.includes('summary')) {
+      for (const status of listableTestStatuses) {
+        if (this.#options.listTests.includes(status)) {
+          message += this.#formatNonExecuted(status, results.tests)
+        }
       }
-    } else {
-      message += '.'
     }
 
-    if (this.#failures.size > 0) {
+    if (sections.includes('failures') && this.#options.failureDetails && this.#failures.size > 0) {
+      message += this.#formatFailureDetails()
+    }
+
+    const failedTests = this.#getFailedTests(run)
+
+    if (failedTests.size > 0) {
       const fileIndentation = this.#indent(1)
       const testIndentation = this.#indent(2)
 
       const filesWithFailures = new Set<string>()
-      message += `\n\n${red}${bold}${fail}Failed tests:\n${fileIndentation}\n${reset}`
+
+      if (sections.includes('failures')) {
+        message += `\n${red}${bold}${fail}${this.#message('failedTests')}\n${fileIndentation}\n${reset}`
+      }
 
       let i = 0
 
-      for (const [file, failures] of this.#failures) {
-        const relativeFile = relative(this.#cwd, file)
+      for (const [relativeFile, failures] of failedTests) {
         filesWithFailures.add(relativeFile)
 
+        if (!sections.includes('failures')) {
+          continue
+        }
+
         if (i++ > 0) {
           message += testIndentation + '\n'
         }
 
         message += `${this.#indent(1)}${gray}${rightArrow}${bold}${relativeFile}${reset}\n${testIndentation}\n`
 
-        for (const { fullName, line } of failures) {
-          message += `${this.#indent(2)}${gray}-${reset} ${bold}${fullName}${normal} ${gray}(${relativeFile}:${line})${reset}\n`
+        const patterns = new Set<string>()
+
+        for (const failure of failures) {
+          const { test } = failure
+          const number = this.#failures.get(test)?.number
+          const reference = this.#options.failureDetails && number ? ` ${gray}[${number}]${reset}` : ''
+          message += `${this.#indent(2)}${gray}-${reset} ${bold}${this.#formatTestName(test)}${normal} ${gray}(${relativeFile}:${test.line})${reset}${reference}\n`
+
+          // Parents only failed because of their subtests, which are already listed
+          if (!hasOwnFailure(test)) {
+            continue
+          }
+
+          const pattern = formatTestNamePattern(this.#getRerunNames(failure))
+          patterns.add(pattern)
+
+          if (this.#options.rerunCommands === 'tests') {
+            message += `${this.#indent(3)}${gray}$${reset} ${formatRerunCommand(relativeFile, [pattern])}\n`
+          }
+        }
+
+        if (this.#options.rerunCommands !== 'none') {
+          message += `${testIndentation}\n${this.#indent(2)}${gray}$${reset} ${formatRerunCommand(relativeFile, [...patterns])}\n`
         }
       }
 
-      message += `\n${red}${bold}${fail}Files with failures:\n${fileIndentation}\n${reset}`
-      for (const file of filesWithFailures) {
-        message += `${this.#indent(1)}${gray}-${reset} ${bold}${file}${normal}\n`
+      if (sections.includes('files')) {
+        message += `\n${red}${bold}${fail}${this.#message('filesWithFailures')}\n${fileIndentation}\n${reset}`
+        for (const file of filesWithFailures) {
+          message += `${this.#indent(1)}${gray}-${reset} ${bold}${file}${normal}\n`
+        }
+
+        message += '\n'
       }
     }
 
-    callback(null, message + '\n\n')
+    return message ? message + '\n' : ''
+  }
+
+  #handleWatchDrained(run: CollectedRun): string {
+    this.#watchRuns++
+    this.#drained = true
+
+    return this.#finishTests(run) + this.#filterSection('summary', this.#formatWatchSummary(run))
+  }
+
+  // Shows the files whose completion was never reported, in the order they started
+  #finishTests(run: CollectedRun): string {
+    const clear = this.#clearStatusLine()
+    this.#stopStatusLine()
+    const failedTests = this.#getFailedTests(run)
+
+    for (const [file, state] of this.#states) {
+      if (!state.completed) {
+        state.buffer += this.#formatFileOutput(state, !failedTests.has(relative(this.#cwd, file)))
+        state.completed = true
+      }
+    }
+
+    const message = this.#switchFile()
+    const { column } = this.#progress
+
+    this.#progress = this.#createProgress()
+
+    if (this.#options.mode !== 'dots') {
+      return clear + message
+    }
+
+    const details = this.#details + message
+    this.#details = ''
+
+    // Remove the progress line or terminate the last line of symbols
+    const prefix = this.#progressLine ? CLEAR_LINE : column > 0 ? '\n' : ''
+
+    return prefix + (details ? '\n' + details : '')
+  }
+
+  #createProgress(): ProgressState {
+    return { passed: 0, failed: 0, cancelled: 0, skipped: 0, todo: 0, total: 0, column: 0, startTime: Date.now() }
+  }
+
+  // Returns the status of the test which has just completed, if it is counted in the progress
+  #updateProgress(type: string, data: TestReportData, test: CollectedTest | null): TestStatus | null {
+    if (!data || this.#isFile(data)) {
+      return null
+    } else if (type === 'test:enqueue') {
+      this.#progress.total++
+      return null
+    } else if (!test) {
+      return null
+    }
+
+    // Parent tests are only considered when they fail on their own, for instance because of a hook
+    if (test.children.length > 0) {
+      if (!hasOwnFailure(test)) {
+        return null
+      }
+
+      this.#progress.total++
+    } else if (test.type === 'suite') {
+      // Empty suites are not tests either
+      this.#progress.total--
+      return null
+    }
+
+    this.#progress[test.status]++
+
+    return test.status
+  }
+
+  #formatProgress(status: TestStatus | null): string {
+    if (!status) {
+      return ''
+    } else if (this.#progressLine) {
+      return CLEAR_LINE + this.#formatProgressLine()
+    }
+
+    const [symbol, color] = progressSymbols[status]
+    let message = `${this.#colors[color]}${symbol}${this.#colors.reset}`
+
+    if (++this.#progress.column >= this.#getColumns()) {
+      this.#progress.column = 0
+      message += '\n'
+    }
+
+    return message
+  }
+
+  #formatProgressLine(): string {
+    const { green, red, gray, blue, bold, normal, reset } = this.#colors
+    const { passed, failed, cancelled, skipped, todo, total, startTime } = this.#progress
+    const completed = passed + failed + cancelled + skipped + todo
+
+    const counts = [
+      `${green}${this.#message('progressPassed', { count: passed })}${reset}`,
+      `${red}${this.#message('progressFailed', { count: failed + cancelled })}${reset}`,
+      `${gray}${this.#message('progressSkipped', { count: skipped })}${reset}`,
+      `${blue}${this.#message('progressTodo', { count: todo })}${reset}`
+    ]
+
+    return `${bold}${completed}/${Math.max(completed, total)}${normal} ${counts.join(', ')} ${gray}(${this.#formatDuration(Date.now() - startTime)})${reset}`
+  }
+
+  // The test runner emits the start event of a test only once it has completed, so the running tests are the dequeued ones
+  #formatStatusLine(): string {
+    const { gray, reset } = this.#colors
+    const { rightArrow } = this.#symbols
+    const now = Date.now()
+    const running = []
+
+    for (const { running: tests } of this.#states.values()) {
+      const test = tests.at(-1)
+
+      if (test) {
+        const fullName = tests.map(({ name }) => name).join(` ${rightArrow}`)
+        const elapsed = Math.floor((now - test.startTime) / 1000) * 1000
+        running.push(`${fullName} ${gray}(${this.#formatDuration(elapsed)})${reset}`)
+      }
+    }
+
+    const message = this.#formatProgressLine() + (running.length ? ` ${gray}|${reset} ${running.join(', ')}` : '')
+
+    // The line must never wrap, otherwise it could no longer be erased
+    return truncateLine(message, this.#getColumns() - 1)
+  }
+
+  #drawStatusLine(): string {
+    if (this.#drained) {
+      return ''
+    }
+
+    if (!this.#statusTimer) {
+      this.#statusTimer = setInterval(() => {
+        if (this.#statusShown) {
+          this.push(CLEAR_LINE + this.#formatStatusLine())
+        }
+      }, STATUS_LINE_INTERVAL)
+
+      this.#statusTimer.unref()
+    }
+
+    this.#statusShown = true
+    return this.#formatStatusLine()
+  }
+
+  #clearStatusLine(): string {
+    if (!this.#statusShown) {
+      return ''
+    }
+
+    this.#statusShown = false
+    return CLEAR_LINE
+  }
+
+  #stopStatusLine(): void {
+    if (this.#statusTimer) {
+      clearInterval(this.#statusTimer)
+      this.#statusTimer = null
+    }
+  }
+
+  #startWatchRun(): string {
+    this.#failures = new Map()
+    this.#states = new Map()
+    this.#state = this.#createFileState()
+    this.#activeState = null
+    this.#started = false
+    this.#shownFiles = 0
+    this.#inFlight = null
+    this.#drained = false
+
+    return this.#options.watchClearScreen ? TestReporter.colors.clear : ''
+  }
+
+  #formatNonExecutedCounts(skipped: number, cancelled: number): string {
+    const { normal, bold } = this.#colors
+    const nonExecuted = []
+
+    if (skipped > 0) {
+      const skippedTests = `${bold}${this.#message('tests', { count: skipped })}${normal}`
+      nonExecuted.push(this.#message('skippedTests', { count: skipped, tests: skippedTests }))
+    }
+
+    if (cancelled > 0) {
+      const cancelledTests = `${bold}${this.#message('tests', { count: cancelled })}${normal}`
+      nonExecuted.push(this.#message('cancelledTests', { count: cancelled, tests: cancelledTests }))
+    }
+
+    return nonExecuted.length > 0 ? formatList(this.#options.locale, nonExecuted) : ''
+  }
+
+  #formatWatchSummary(run: CollectedRun): string {
+    const { normal, blue, green, red, gray, reset, bold } = this.#colors
+    const { rightArrow, fail } = this.#symbols
+
+    const { success, totals, files: collectedFiles } = run
+    const { tests, todo, skipped, cancelled, files } = totals
+    const passed = totals.passed + todo
+    const nonExecuted = this.#formatNonExecutedCounts(skipped, cancelled)
+
+    const status = success ? `${green}${this.#message('passed')}` : `${red}${this.#message('failed')}`
+
+    let message = `\n${blue}${rightArrow}${bold}`
+    message += this.#message('watchRun', {
+      count: passed,
+      number: this.#watchRuns,
+      status: `${bold}${status}${reset}${blue}`,
+      passing: `${bold}${this.#message('tests', { count: passed })}${normal}`,
+      total: `${bold}${this.#message('tests', { count: tests })}${normal}`,
+      files: `${bold}${this.#message('files', { count: files })}${normal}`
+    })
+    message += (nonExecuted ? ' (' + nonExecuted + ').' : '.') + `${reset}\n`
+
+    // On reruns, only the changed files are executed again
+    if (this.#watchRuns > 1 && files > 0) {
+      const rerun = collectedFiles.map(({ file }) => file)
+      message += `${this.#indent(1, true)}${gray}${this.#message('watchRerun', { files: formatList(this.#options.locale, rerun) })}${reset}\n`
+    }
+
+    for (const [file, failures] of this.#getFailedTests(run)) {
+      for (const { test } of failures) {
+        message += `${this.#indent(1, true)}${red}${fail}${reset}${bold}${this.#formatTestName(test)}${normal} ${gray}(${file}:${test.line})${reset}\n`
+      }
+    }
+
+    return message + `\n${blue}${rightArrow}${this.#message('watchWaiting')}${reset}\n\n`
+  }
+
+  #formatAnnotations(tests: TestResult[]): string {
+    const annotations = formatGitHubAnnotations(tests, {
+      cwd: this.#cwd,
+      types: this.#options.githubAnnotations,
+      slowThreshold: this.#options.slowThreshold,
+      locale: this.#options.locale
+    })
+
+    return annotations.length ? annotations.join('\n') + '\n' : ''
+  }
+
+  async #writeReports(results: TestRunResults): Promise<void> {
+    if (this.#options.jsonOutput) {
+      await writeResults(this.#options.jsonOutput, results)
+    }
+
+    if (this.#options.junitOutput) {
+      await writeJUnit(this.#options.junitOutput, results)
+    }
+
+    const stepSummary = this.#options.githubStepSummary ? process.env.GITHUB_STEP_SUMMARY : undefined
+
+    if (this.#options.markdownOutput || stepSummary) {
+      const report = formatMarkdownReport(results, {
+        slowestCount: this.#options.slowestCount,
+        locale: this.#options.locale
+      })
+
+      if (this.#options.markdownOutput) {
+        await writeMarkdown(this.#options.markdownOutput, report)
+      }
+
+      if (stepSummary) {
+        await writeMarkdown(stepSummary, report, true)
+      }
+    }
+
+    if (this.#history) {
+      await writeHistory(this.#options.historyFile, this.#history)
+    }
   }
 
   #handleTestStart(data: TestReportData): string {
@@ -272,49 +839,69 @@ export class TestReporter extends Transform {
 
     let message = ''
     const { gray, bold, normal } = this.#colors
-    const { rightArrow } = TestReporter.symbols
+    const { rightArrow } = this.#symbols
 
     if (this.#isFile(data)) {
       return ''
     }
 
-    if (data.file !== this.#currentFile) {
-      if (this.#currentFile) {
-        message += indentation + '\n'
-      }
-
-      this.#currentFile = data.file!
-      message += `${gray}${bold}${rightArrow}${normal}${relative(this.#cwd, data.file!)}\n${indentation}\n`
-    } else if (this.#diagnosticShown) {
-      this.#diagnosticShown = false
+    if (!this.#state.started) {
+      this.#state.started = true
+      this.#started = true
+      message += `${FILE_SEPARATOR}${gray}${bold}${rightArrow}${normal}${relative(this.#cwd, data.file!)}\n${indentation}\n`
+    } else if (this.#state.diagnosticShown) {
+      this.#state.diagnosticShown = false
 
       message += this.#indent(2) + '\n'
     }
 
+    let parent = ''
+
     // This happens if handleTestStart is called again before the test has ended, which means we are executing a subtest.
-    if (data.nesting > this.#nesting) {
-      message += `${this.#indent()}${rightArrow}${this.#executing.at(-1)}\n${this.#indent(1)}\n`
+    if (data.nesting > this.#state.nesting) {
+      // Parents have been enqueued as well, but the progress only counts them if they fail on their own
+      this.#progress.total--
+      parent = `${this.#indent()}${rightArrow}${this.#state.executing.at(-1)}\n${this.#indent(1)}\n`
     }
 
-    this.#executing.push(data.name)
-    this.#nesting = data.nesting
+    this.#state.executing.push(data.name)
+    this.#state.nesting = data.nesting
 
-    return message
+    // When some tests are hidden, the headers are only shown once a test which is not hidden ends
+    if (this.#options.hideTests.length > 0) {
+      this.#state.pending.push({ level: -1, message }, { level: data.nesting - 1, message: parent })
+      return ''
+    }
+
+    return message + parent
   }
 
-  #handleTestEnd(data: TestReportData, passed: boolean): string {
+  // Files failing on their own have no collected test, so they are rendered from their report
+  #handleTestEnd(data: TestReportData, passed: boolean, test: CollectedTest | null): string {
     let message = ''
     const { green, red, gray, reset, bold, normal } = this.#colors
-    const { pass, fail } = TestReporter.symbols
+    const { pass, fail } = this.#symbols
 
     const todo = typeof data.todo === 'string' && data.todo ? `:${normal} ${data.todo}` : ''
-
-    if (!this.#isFile(data)) {
-      this.#executing.pop()
-    }
+    const skip = typeof data.skip === 'string' && data.skip ? `:${normal} ${data.skip}` : ''
 
     let name = data.name
-    const fullName = this.#getFullTestName(data)
+    let output = ''
+    let reference = ''
+
+    if (test) {
+      this.#state.executing.pop()
+      output = this.#formatTestOutput(this.#formatTestName(test), passed)
+
+      if (this.#isHidden(test)) {
+        // The header of the parent test is not needed anymore, as all its subtests have ended
+        this.#state.pending = this.#state.pending.filter(({ level }) => level < data.nesting)
+        this.#state.nesting = data.nesting
+        this.#state.hidden = true
+
+        return ''
+      }
+    }
 
     if (passed) {
       if (data.skip) {
@@ -323,85 +910,180 @@ export class TestReporter extends Transform {
         message = `${green}${pass}`
       }
 
-      message += `${name} ${gray}(${data.details!.duration_ms}ms)${reset}`
+      message += `${name} ${this.#formatTestDuration(data.details!.duration_ms!)}`
 
       if (data.todo) {
         message += ` ${bold}# TODO${todo}${reset}`
       } else if (data.skip) {
-        message += ` ${bold}# SKIP${reset}`
+        message += ` ${bold}# SKIP${skip}${reset}`
       }
 
       message += '\n'
     } else {
-      if (this.#isFile(data)) {
-        name = relative(this.#cwd, data.file!)
-      } else {
-        const file = data.file!
-        let failures = this.#failures.get(file)
+      const error = data.details?.error! as TestError
 
-        if (!failures) {
-          failures = []
-          this.#failures.set(file, failures)
-        }
+      if (!test) {
+        name = relative(this.#cwd, data.file!)
+      } else if (hasOwnFailure(test)) {
+        const number = this.#failures.size + 1
 
-        failures.push({ ...data, fullName })
-        name = data.name
+        this.#failures.set(test, { number, error })
+        reference = this.#options.failureDetails ? ` ${gray}[${number}]${reset}` : ''
       }
 
       message = `${red}${fail}`
 
-      const error = data.details?.error! as TestError
-      const durationFooter = `${gray}(${data.details!.duration_ms}ms)${reset}\n`
-
-      switch (error.failureType) {
-        case 'callbackAndPromisePresent':
-          message += `${name} - Test both accepted a callback but returned a Promise. ${durationFooter}`
-          break
-        case 'cancelledByParent':
-          message += `${name} - Test cancelled by its parent. ${durationFooter}`
-          break
-        /* c8 ignore next 3 - Hard to test */
-        case 'testAborted':
-          message += `${name} - Test aborted. ${durationFooter}`
-          break
-        /* c8 ignore next 3 - Hard to test */
-        case 'parentAlreadyFinished':
-          message += `${name} - Parent test already completed. ${durationFooter}`
-          break
-        case 'subtestsFailed':
-          {
-            /* c8 ignore next - else */
-            const amount = parseInt(error.message?.match(SUBTESTS_FAILED)?.[1] ?? '0', 10)
-            message += `${name} - ${amount} ${pluralize('subtest', amount)} failed. ${durationFooter}`
-          }
-          break
-        case 'testCodeFailure':
-          message += `${name} ${durationFooter}${this.#formatError(error.cause)}`
-          break
-        case 'testTimeoutFailure':
-          message += `${name} - Test timed out after ${this.#getTimeoutErrorValue(error)}ms. ${durationFooter}`
-          break
-        case 'hookFailed':
-          {
-            /* c8 ignore next - else */
-            const hook = error.message?.match(FAILED_HOOK_MATCHER)?.[1] ?? 'unknown'
-            message += `${name} - Error while running ${hook} hook. ${durationFooter}${this.#formatError(error.cause)}`
-          }
-          break
+      const durationFooter = `${this.#formatTestDuration(data.details!.duration_ms!)}${reference}\n`
+
+      const description = describeFailure(error, this.#options.locale)
+      message += description ? `${name} - ${description} ${durationFooter}` : `${name} ${durationFooter}`
+
+      if (error.failureType === 'testCodeFailure' || error.failureType === 'hookFailed') {
+        message += this.#formatError(error.cause)
       }
 
-      if (this.#isFile(data)) {
+      if (!test) {
         message = this.#indent(0, true) + '\n' + message
       }
     }
 
-    if (data.nesting < this.#nesting) {
+    if (data.nesting < this.#state.nesting) {
       message = `${this.#indent(2)}\n${this.#indent(1)}` + message
-    } else if (!this.#isFile(data)) {
+    } else if (test) {
       message = this.#indent(1) + message
     }
 
-    this.#nesting = data.nesting
+    this.#state.nesting = data.nesting
+    this.#state.hidden = false
+    message = this.#state.pending.map(pending => pending.message).join('') + message + output
+    this.#state.pending = []
+
+    // As for diagnostics, separate the output from the next test
+    if (output) {
+      this.#state.diagnosticShown = true
+    }
+
+    return message
+  }
+
+  // Dequeue and complete events track the running tests, which own the output reported in between.
+  // With process isolation, Node.js reports the output of a file before the events of its tests, so it stays unattributed.
+  #handleTestDequeue(data: TestReportData): void {
+    if (!this.#isFile(data)) {
+      this.#getFileState(data.file!).running.push({
+        name: data.name,
+        line: data.line,
+        startTime: Date.now(),
+        output: []
+      })
+    }
+  }
+
+  #handleTestComplete(data: TestReportData): void {
+    if (this.#isFile(data)) {
+      return
+    }
+
+    const state = this.#getFileState(data.file!)
+    const test = state.running.pop()
+
+    if (!test?.output.length) {
+      return
+    }
+
+    const fullName = [...state.running.map(running => running.name), data.name].join(` ${this.#symbols.rightArrow}`)
+    let outputs = state.output.get(fullName)
+
+    if (!outputs) {
+      outputs = []
+      state.output.set(fullName, outputs)
+    }
+
+    outputs.push(test.output)
+  }
+
+  #handleInterrupted(data: TestReportData): void {
+    const now = Date.now()
+    const separator = ` ${this.#symbols.rightArrow}`
+    const inFlight: InFlightTest[] = []
+
+    // Recent versions of Node.js report the running tests, otherwise they are the ones dequeued and not completed yet
+    if (data.tests?.length) {
+      for (const { name, nesting, file, line } of data.tests) {
+        const running = this.#states.get(file!)?.running ?? []
+        const found = running[nesting]?.name === name
+        const ancestors = found ? running.slice(0, nesting).map(test => test.name) : []
+
+        inFlight.push({
+          fullName: [...ancestors, name].join(separator),
+          file: file!,
+          line,
+          duration: found ? now - running[nesting].startTime : undefined
+        })
+      }
+    } else {
+      for (const [file, state] of this.#states) {
+        for (let i = 0; i < state.running.length; i++) {
+          const { line, startTime } = state.running[i]
+          const fullName = state.running
+            .slice(0, i + 1)
+            .map(test => test.name)
+            .join(separator)
+
+          inFlight.push({ fullName, file, line, duration: now - startTime })
+        }
+      }
+    }
+
+    this.#inFlight = inFlight
+  }
+
+  #handleTestOutput(data: TestReportData, stderr: boolean): string {
+    const { yellow, reset } = this.#colors
+    const lines = data.message!.replace(/\r?\n$/, '').split(/\r?\n/)
+
+    if (stderr) {
+      lines.forEach((line, i) => (lines[i] = `${yellow}${line}${reset}`))
+    }
+
+    const running = this.#state.running.at(-1)
+
+    // When no test is known to be running, as it always happens with process isolation, the output belongs to the file
+    if (running) {
+      running.output.push(...lines)
+    } else {
+      this.#state.unattributed.push(...lines)
+    }
+
+    return ''
+  }
+
+  #formatTestOutput(fullName: string, passed: boolean): string {
+    return this.#formatOutputLines(this.#state.output.get(fullName)?.shift(), passed, this.#indent(2))
+  }
+
+  #formatFileOutput(state: FileState, passed: boolean): string {
+    const message = this.#formatOutputLines(state.unattributed, passed, this.#indent(1, true))
+    state.unattributed = []
+
+    return message ? `${this.#indent(1, true)}\n${message}` : ''
+  }
+
+  #formatOutputLines(lines: string[] | undefined, passed: boolean, indentation: string): string {
+    const { testOutput, testOutputLines } = this.#options
+
+    if (!lines?.length || testOutput === 'none' || (testOutput === 'failures' && passed)) {
+      return ''
+    }
+
+    const { gray, reset } = this.#colors
+    const shown = testOutputLines > 0 ? lines.slice(0, testOutputLines) : lines
+    let message = shown.map(line => `${indentation}${line}\n`).join('')
+
+    if (shown.length < lines.length) {
+      const hidden = lines.length - shown.length
+      message += `${indentation}${gray}${this.#message('moreLines', { count: hidden })}${reset}\n`
+    }
 
     return message
   }
@@ -409,16 +1091,27 @@ export class TestReporter extends Transform {
   #handleDiagnostic(data: TestReportData): string {
     const mo = data.message?.match(SUMMARY_MATCHER)
 
+    // The totals of the run are collected from the summary, so they are only shown at the end
     if (mo) {
-      this.#counters[mo[1]] = parseFloat(mo[2])
+      return ''
+    }
+
+    const { sections, verbosity } = this.#options
 
+    // Diagnostics of hidden tests are hidden as well
+    if (
+      verbosity === 'quiet' ||
+      !sections.includes('tests') ||
+      !sections.includes('diagnostics') ||
+      this.#state.hidden
+    ) {
       return ''
     }
 
-    this.#diagnosticShown = true
+    this.#state.diagnosticShown = true
 
     const { blue } = this.#colors
-    const { diagnostic } = TestReporter.symbols
+    const { diagnostic } = this.#symbols
 
     // Diagnostic messages are shown after the test has finished, so 1 level for indentation of test and 1 for the diagnostic
     const formatted = data.message!.split('\n').map((line, i) => {
@@ -430,36 +1123,372 @@ export class TestReporter extends Transform {
     return message
   }
 
-  #formatError(error: Error | string): string {
-    // One for the already popped test, one for the current context
-    const indentation = this.#indent(2)
+  // By default, one level for the already popped test and one for the current context
+  #formatError(thrown: unknown, indentation: string = this.#indent(2)): string {
+    const error = formatError(thrown, {
+      locale: this.#options.locale,
+      colors: this.#colors,
+      diffContext: this.#options.diffContext,
+      depth: this.#options.verbosity === 'verbose' ? Infinity : 10
+    })
+
+    const cleaned = cleanStack(error, {
+      cwd: this.#cwd,
+      filter: this.#options.stackFilter,
+      excerpt: this.#options.sourceExcerpt,
+      context: this.#options.sourceContext,
+      colors: this.#colors,
+      sources: this.#sources
+    })
+
+    const formatted = cleaned
+      .split(/\r?\n/)
+      .map(line => indentation + line)
+      .join('\n')
+
+    return indentation + '\n' + formatted + '\n' + indentation + '\n'
+  }
+
+  #formatNonExecuted(status: ListableTestStatus, tests: TestResult[]): string {
+    const { blue, gray, reset, bold, normal } = this.#colors
+    const { rightArrow } = this.#symbols
+    const files = Map.groupBy(
+      tests.filter(result => result.status === status),
+      result => result.file
+    )
+
+    if (files.size === 0) {
+      return ''
+    }
+
+    const color = status === 'skipped' ? gray : blue
+    const title = this.#message(status === 'skipped' ? 'skippedTestsList' : 'todoTestsList')
+    const testIndentation = this.#indent(2)
+
+    let message = `\n${color}${bold}${rightArrow}${title}\n${this.#indent(1)}\n${reset}`
+    let i = 0
+
+    // As for failures, the tests are grouped by file
+    for (const [file, results] of files) {
+      if (i++ > 0) {
+        message += testIndentation + '\n'
+      }
+
+      message += `${this.#indent(1)}${gray}${rightArrow}${bold}${file}${reset}\n${testIndentation}\n`
+
+      for (const result of results) {
+        const { line, reason } = result
+        const details = reason ? `: ${reason}` : ''
+        message += `${testIndentation}${gray}-${reset} ${bold}${this.#formatTestName(result)}${normal} ${gray}(${file}:${line})${reset}${details}\n`
+      }
+    }
+
+    return message
+  }
+
+  #formatInFlight(): string {
+    const { yellow, gray, reset, bold, normal } = this.#colors
+    const { rightArrow } = this.#symbols
+
+    let message = `\n${yellow}${bold}${rightArrow}${this.#message('testsStillRunning')}\n${this.#indent(1, true)}\n${reset}`
+
+    for (const { fullName, file, line, duration } of this.#inFlight!) {
+      const running =
+        typeof duration === 'number'
+          ? ` ${yellow}${this.#message('runningFor', { duration: this.#formatDuration(duration) })}${reset}`
+          : ''
+      message += `${this.#indent(1, true)}${gray}-${reset} ${bold}${fullName}${normal} ${gray}(${relative(this.#cwd, file)}:${line})${reset}${running}\n`
+    }
+
+    return message
+  }
+
+  #recordHistory(tests: TestResult[]): HistoryAnalysis {
+    const { historyFile, historySize } = this.#options
+    const history = readHistory(historyFile)
 
-    if (typeof error !== 'string') {
-      error = inspect(error, { colors: false, customInspect: true, depth: 10 })
+    this.#history = appendHistoryRun(history, createHistoryRun(tests), historySize)
+    return analyzeHistory(history, tests)
+  }
+
+  #formatHistory({ newlyFailing, newlyFixed, flaky, regressions }: HistoryAnalysis): string {
+    const { green, red, yellow, gray, reset, bold, normal } = this.#colors
+    const { pass, fail, rightArrow } = this.#symbols
+    const sections: [title: string, entries: [TestResult, string][]][] = [
+      [`${red}${bold}${fail}${this.#message('newlyFailingTests')}`, newlyFailing.map(test => [test, ''])],
+      [`${green}${bold}${pass}${this.#message('newlyFixedTests')}`, newlyFixed.map(test => [test, ''])],
+      [
+        `${yellow}${bold}${rightArrow}${this.#message('flakyTests')}`,
+        flaky.map(({ test, changes, runs }) => [
+          test,
+          ` ${gray}${this.#message('flakyChanges', { changes, runs })}${reset}`
+        ])
+      ],
+      [
+        `${yellow}${bold}${rightArrow}${this.#message('slowerTests')}`,
+        regressions.map(({ test, average }) => [
+          test,
+          ` ${this.#formatTestDuration(test.duration)} ${gray}(${this.#message('averageDuration', { duration: `${Math.round(average)}ms` })})${reset}`
+        ])
+      ]
+    ]
+
+    let message = ''
+
+    for (const [title, entries] of sections) {
+      if (entries.length === 0) {
+        continue
+      }
+
+      message += `\n${title}\n${this.#indent(1, true)}\n${reset}`
+
+      for (const [test, suffix] of entries) {
+        const { file, line } = test
+        message += `${this.#indent(1, true)}${gray}-${reset} ${bold}${this.#formatTestName(test)}${normal} ${gray}(${file}:${line})${reset}${suffix}\n`
+      }
+    }
+
+    return message
+  }
+
+  #formatFailureDetails(): string {
+    const { red, gray, reset, bold, normal } = this.#colors
+    const { fail } = this.#symbols
+
+    let message = `\n${red}${bold}${fail}${this.#message('failureDetails')}\n${this.#indent(1, true)}\n${reset}`
+
+    // The failures are numbered in the order they are rendered
+    for (const [test, { number, error }] of this.#failures) {
+      const description = describeFailure(error, this.#options.locale)
+
+      message += `${this.#indent(1, true)}${gray}[${number}]${reset} ${bold}${this.#formatTestName(test)}${normal} ${gray}(${test.file}:${test.line})${reset}`
+      message += description ? ` - ${description}\n` : '\n'
+
+      if (error.failureType === 'testCodeFailure' || error.failureType === 'hookFailed') {
+        message += this.#formatError(error.cause, this.#indent(2, true))
+      }
+    }
+
+    return message
+  }
+
+  // Subtests created within tests only exist once the test runs, so the outermost test must be rerun as a whole
+  #getRerunNames({ test, parents }: FailedTest): string[] {
+    const names = [...test.ancestors, test.name]
+    const outermost = parents.findIndex(parent => parent.type !== 'suite')
+
+    return outermost === -1 ? names : names.slice(0, outermost + 1)
+  }
+
+  // The failed tests of each file, relative to the working directory
+  #getFailedTests({ files }: CollectedRun): Map<string, FailedTest[]> {
+    const failedTests = new Map<string, FailedTest[]>()
+
+    for (const { file, tests } of files) {
+      // As in the tree, failing TODO tests are not listed when TODO tests are hidden
+      const failures = collectFailedTests(tests).filter(({ test }) => !this.#isHidden(test))
+
+      if (failures.length > 0) {
+        failedTests.set(file, failures)
+      }
+    }
+
+    return failedTests
+  }
+
+  #formatCoverage(summary: CoverageSummary, failures: CoverageMetric[]): string {
+    const { blue, red, reset, bold } = this.#colors
+    const { coverage, fail } = this.#symbols
+    const { coverageThresholds: thresholds, coverageOnlyBelow: onlyBelow } = this.#options
+
+    const table = formatCoverageTable(summary, { cwd: this.#cwd, colors: this.#colors, thresholds, onlyBelow })
+    let message = `\n${blue}${bold}${coverage}${this.#message('coverageReport')}\n${this.#indent(1)}\n${reset}`
+
+    for (const line of table) {
+      message += `${this.#indent(1)}${line}${reset}\n`
+    }
+
+    if (failures.length > 0) {
+      const details = failures.map(metric => {
+        const percent = getCoveragePercent(summary.totals, metric)
+        return `${metric} (${percent.toFixed(2)}% < ${thresholds[metric]}%)`
+      })
+
+      message += `${this.#indent(1)}\n${this.#indent(1)}${red}${bold}${fail}${this.#message('coverageBelowThresholds', { metrics: formatList(this.#options.locale, details) })}${reset}\n`
+    }
+
+    return message
+  }
+
+  #formatSlowest(timedTests: CollectedTest[], collectedFiles: CollectedFile[]): string {
+    const { yellow, gray, reset, bold, normal } = this.#colors
+    const { rightArrow } = this.#symbols
+    const count = this.#options.slowestCount
+
+    const tests = timedTests.toSorted((a, b) => b.duration - a.duration).slice(0, count)
+
+    // The duration of a file is the one of its top-level tests, which include their subtests
+    const files = collectedFiles
+      .flatMap(({ file, tests }): [string, number][] => {
+        const executed = tests.filter(isExecuted)
+        return executed.length > 0 ? [[file, executed.reduce((total, test) => total + test.duration, 0)]] : []
+      })
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, count)
+
+    let message = `\n${yellow}${bold}${rightArrow}${this.#message('slowestTests')}\n${this.#indent(1)}\n${reset}`
+
+    for (const test of tests) {
+      message += `${this.#indent(1)}${gray}-${reset} ${bold}${this.#formatTestName(test)}${normal} ${gray}(${test.file}:${test.line})${reset} ${this.#formatTestDuration(test.duration)}\n`
+    }
+
+    message += `\n${yellow}${bold}${rightArrow}${this.#message('slowestFiles')}\n${this.#indent(1)}\n${reset}`
+
+    for (const [file, duration] of files) {
+      message += `${this.#indent(1)}${gray}-${reset} ${bold}${file}${normal} ${this.#formatTestDuration(duration)}\n`
     }
-    const formatted = error.split(/\r?\n/).join('\n') + '\n'
 
-    return indentation + '\n' + formatted.replaceAll(/(^.)/gm, `${indentation}$1`) + indentation + '\n'
+    return message
+  }
+
+  #createFileState(): FileState {
+    return {
+      executing: [],
+      running: [],
+      output: new Map(),
+      unattributed: [],
+      nesting: 0,
+      diagnosticShown: false,
+      pending: [],
+      hidden: false,
+      started: false,
+      completed: false,
+      buffer: ''
+    }
+  }
+
+  #getFileState(file: string): FileState {
+    let state = this.#states.get(file)
+
+    if (!state) {
+      state = this.#createFileState()
+      this.#states.set(file, state)
+    }
+
+    return state
+  }
+
+  // Only one file at time is streamed, while the others are buffered until the file completes
+  #routeOutput(state: FileState | null, message: string): string {
+    if (state && !this.#activeState) {
+      this.#activeState = state
+    }
+
+    if (!state || state === this.#activeState) {
+      return this.#showOutput(message)
+    }
+
+    state.buffer += message + this.#colors.reset
+    return ''
+  }
+
+  // Shows buffered files in order, until one which is still running is found, which will then be streamed
+  #switchFile(): string {
+    let message = ''
+    this.#activeState = null
+
+    for (const state of this.#states.values()) {
+      message += this.#showOutput(state.buffer)
+      state.buffer = ''
+
+      if (!state.completed) {
+        this.#activeState = state
+        break
+      }
+    }
+
+    return message
+  }
+
+  #showOutput(message: string): string {
+    return message.replaceAll(FILE_SEPARATOR, () => (this.#shownFiles++ > 0 ? this.#indent(1, true) + '\n' : ''))
+  }
+
+  #formatTestDuration(duration: number): string {
+    const { gray, yellow, red, reset } = this.#colors
+    const threshold = this.#options.slowThreshold
+    let color = gray
+
+    if (threshold > 0 && duration >= threshold * 2) {
+      color = red
+    } else if (threshold > 0 && duration >= threshold) {
+      color = yellow
+    }
+
+    return `${color}(${duration}ms)${reset}`
+  }
+
+  #isHidden(test: CollectedTest): boolean {
+    return this.#options.hideTests.includes(test.status as HideableTestStatus)
+  }
+
+  #filterSection(section: OutputSection, message: string): string {
+    return this.#options.sections.includes(section) ? message : ''
+  }
+
+  #message(name: MessageName, parameters: Record<string, string | number> = {}): string {
+    return formatMessage(this.#options.locale, name, parameters)
+  }
+
+  #formatDuration(duration: number): string {
+    return formatLocalizedDuration(this.#options.locale, duration)
   }
 
   #isFile(data: TestReportData): boolean {
     return Boolean(data.file && data.file.endsWith(data.name))
   }
 
-  #getFullTestName(data: TestReportData): string {
-    return [...this.#executing, data.name].join(` ${TestReporter.symbols.rightArrow}`)
+  // The full names of the results use a fixed separator, which is replaced with the one of the output
+  #formatTestName({ ancestors, name }: TestResult): string {
+    return [...ancestors, name].join(` ${this.#symbols.rightArrow}`)
   }
 
-  #getTimeoutErrorValue(error: Error | undefined): number {
-    const mo = error?.message?.match(/^test timed out after (\d+)ms$/)
+  // The configured width takes precedence, otherwise only the output to terminals is wrapped
+  #getWidth(): number {
+    if (this.#options.width > 0) {
+      return this.#options.width
+    }
+
     /* c8 ignore next - else */
-    return parseInt(mo?.[1] ?? '0', 10)
+    return this.#terminal ? process.stdout.columns || 0 : 0
+  }
+
+  // Streams which are not terminals report no columns, and some terminals report zero
+  #getColumns(): number {
+    return process.stdout.columns || 80
+  }
+
+  // Wrapped lines continue the indentation guides of the original line
+  #wrap(message: string): string {
+    const width = this.#getWidth()
+
+    if (width === 0 || !message) {
+      return message
+    }
+
+    const prefix = new RegExp(`^(?:\\u001b\\[[\\d;]*m|${escapeRegExp(this.#symbols.verticalBar)}| )*`)
+
+    return message
+      .split('\n')
+      .map(line => wrapLine(line, width, line.match(prefix)![0]).join('\n'))
+      .join('\n')
   }
 
   #indent(level: number = 0, absolute: boolean = false, useSymbol: boolean = true): string {
     const { gray, reset } = this.#colors
-    const verticalBar = useSymbol && gray !== '' ? TestReporter.symbols.verticalBar : ' '
-    const length = ((absolute ? 0 : this.#executing.length) + level) * 2
+    const verticalBar = useSymbol && gray !== '' ? this.#symbols.verticalBar : ' '
+    const width = this.#options.indentation
+    const length = ((absolute ? 0 : this.#state.executing.length) + level) * width
 
     let indentation = ''
 
@@ -467,7 +1496,7 @@ export class TestReporter extends Transform {
       indentation = verticalBar
     } else {
       for (let i = 0; i < length; i++) {
-        indentation += i % 2 === 0 ? verticalBar : ' '
+        indentation += i % width === 0 ? verticalBar : ' '
       }
     }
 
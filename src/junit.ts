@@ -0,0 +1,186 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { type TestResult, type TestRunResults, isOwnFailure } from './results.ts'
+import { stripAnsi } from './utils.ts'
+
+interface JUnitNode {
+  result: TestResult
+  children: JUnitNode[]
+}
+
+interface JUnitCounts {
+  tests: number
+  failures: number
+  skipped: number
+}
+
+// Characters that are not allowed in XML 1.0 documents, not even as entities
+const INVALID_XML_RANGES = ['\\u0000-\\u0008', '\\u000b', '\\u000c', '\\u000e-\\u001f', '\\ufffe', '\\uffff']
+
+const INVALID_XML_CHARACTERS = new RegExp(`[${INVALID_XML_RANGES.join('')}]`, 'g')
+
+export function escapeXml(value: string): string {
+  return stripAnsi(value)
+    .replace(INVALID_XML_CHARACTERS, '')
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;')
+}
+
+function formatTime(duration: number): string {
+  return (duration / 1000).toFixed(3)
+}
+
+function formatAttributes(attributes: Record<string, string | number | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join('')
+}
+
+// Tests complete after all their subtests, so a test owns all the preceding pending tests with a deeper nesting
+export function buildJUnitTree(tests: TestResult[]): Map<string, JUnitNode[]> {
+  const files = new Map<string, JUnitNode[]>()
+
+  for (const result of tests) {
+    let pending = files.get(result.file)
+
+    if (!pending) {
+      pending = []
+      files.set(result.file, pending)
+    }
+
+    let first = pending.length
+    while (first > 0 && pending[first - 1].result.nesting > result.nesting) {
+      first--
+    }
+
+    pending.push({ result, children: pending.splice(first) })
+  }
+
+  return files
+}
+
+function countNodes(nodes: JUnitNode[]): JUnitCounts {
+  const counts: JUnitCounts = { tests: 0, failures: 0, skipped: 0 }
+
+  for (const { result, children } of nodes) {
+    if (children.length) {
+      const nested = countNodes(children)
+
+      counts.tests += nested.tests
+      counts.failures += nested.failures
+      counts.skipped += nested.skipped
+
+      // A failed suite is reported as an additional test case
+      if (!isOwnFailure(result)) {
+        continue
+      }
+    }
+
+    counts.tests++
+
+    if (result.status === 'failed' || result.status === 'cancelled') {
+      counts.failures++
+    } else if (result.status === 'skipped' || result.status === 'todo') {
+      counts.skipped++
+    }
+  }
+
+  return counts
+}
+
+function formatTestCase(result: TestResult, indentation: string): string[] {
+  const attributes = formatAttributes({
+    name: result.fullName,
+    classname: result.file,
+    time: formatTime(result.duration),
+    file: result.file,
+    line: result.line
+  })
+
+  if (result.status === 'failed' || result.status === 'cancelled') {
+    const error = result.error
+    const message = error?.description ?? error?.message ?? ''
+    const details = [error?.description, error?.stack ?? error?.message].filter(Boolean).join('\n\n')
+
+    return [
+      `${indentation}<testcase${attributes}>`,
+      `${indentation}  <failure${formatAttributes({ message, type: error?.failureType })}>${escapeXml(details)}</failure>`,
+      `${indentation}</testcase>`
+    ]
+  } else if (result.status === 'skipped' || result.status === 'todo') {
+    const message = result.reason ?? (result.status === 'todo' ? 'TODO' : undefined)
+
+    return [
+      `${indentation}<testcase${attributes}>`,
+      `${indentation}  <skipped${formatAttributes({ message })}/>`,
+      `${indentation}</testcase>`
+    ]
+  }
+
+  return [`${indentation}<testcase${attributes}/>`]
+}
+
+function formatNodes(nodes: JUnitNode[], indentation: string): string[] {
+  const lines: string[] = []
+
+  for (const node of nodes) {
+    const { result, children } = node
+
+    if (!children.length) {
+      lines.push(...formatTestCase(result, indentation))
+      continue
+    }
+
+    const { tests, failures, skipped } = countNodes([node])
+    const attributes = formatAttributes({
+      name: result.name,
+      tests,
+      failures,
+      skipped,
+      time: formatTime(result.duration)
+    })
+
+    lines.push(`${indentation}<testsuite${attributes}>`)
+
+    // Failures which are not caused by subtests (like hooks) would otherwise be lost
+    if (isOwnFailure(result)) {
+      lines.push(...formatTestCase(result, indentation + '  '))
+    }
+
+    lines.push(...formatNodes(children, indentation + '  '), `${indentation}</testsuite>`)
+  }
+
+  return lines
+}
+
+export function formatJUnit(results: TestRunResults): string {
+  const files = buildJUnitTree(results.tests)
+  const totals = countNodes([...files.values()].flat())
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${formatAttributes({ name: 'node:test', ...totals, time: formatTime(results.duration) })}>`
+  ]
+
+  for (const [file, nodes] of files) {
+    const { tests, failures, skipped } = countNodes(nodes)
+    const time = formatTime(nodes.reduce((total, { result }) => total + result.duration, 0))
+
+    lines.push(
+      `  <testsuite${formatAttributes({ name: file, tests, failures, skipped, time, file })}>`,
+      ...formatNodes(nodes, '    '),
+      '  </testsuite>'
+    )
+  }
+
+  lines.push('</testsuites>')
+  return lines.join('\n') + '\n'
+}
+
+export async function writeJUnit(path: string, results: TestRunResults): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, formatJUnit(results), 'utf-8')
+}
@@ -0,0 +1,276 @@
+import { formatDuration, niceJoin } from './utils.ts'
+
+export type LocaleName = 'en' | 'it'
+
+// Plural messages are chosen with the plural rules of the locale, using the count parameter
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+
+export type Message = string | PluralMessage
+
+export interface Messages {
+  listSeparator: string
+  listLastSeparator: string
+  tests: Message
+  completedTests: Message
+  files: Message
+  todos: Message
+  noTests: Message
+  summary: Message
+  summaryIncluding: Message
+  passed: Message
+  failed: Message
+  interrupted: Message
+  skippedTests: Message
+  cancelledTests: Message
+  failedTests: Message
+  skippedTestsList: Message
+  todoTestsList: Message
+  filesWithFailures: Message
+  failureDetails: Message
+  testsStillRunning: Message
+  runningFor: Message
+  slowestTests: Message
+  slowestFiles: Message
+  coverageReport: Message
+  coverageBelowThresholds: Message
+  newlyFailingTests: Message
+  newlyFixedTests: Message
+  flakyTests: Message
+  flakyChanges: Message
+  slowerTests: Message
+  averageDuration: Message
+  watchRun: Message
+  watchRerun: Message
+  watchWaiting: Message
+  moreLines: Message
+  progressPassed: Message
+  progressFailed: Message
+  progressSkipped: Message
+  progressTodo: Message
+  diffActual: Message
+  diffExpected: Message
+  unchangedLines: Message
+  slowTest: Message
+  reportTitle: Message
+  reportFailures: Message
+  reportSlowestTests: Message
+  reportFailuresCount: Message
+  reportTests: Message
+  reportSuites: Message
+  reportPassed: Message
+  reportFailed: Message
+  reportCancelled: Message
+  reportSkipped: Message
+  reportTodo: Message
+  reportFiles: Message
+  reportDuration: Message
+  reportTest: Message
+  reportFile: Message
+  callbackAndPromisePresent: Message
+  cancelledByParent: Message
+  testAborted: Message
+  parentAlreadyFinished: Message
+  subtestsFailed: Message
+  testTimeoutFailure: Message
+  hookFailed: Message
+  causedBy: Message
+}
+
+export type MessageName = keyof Messages
+
+export const localeNames: readonly LocaleName[] = ['en', 'it']
+
+export const locales: Record<LocaleName, Messages> = {
+  en: {
+    listSeparator: ', ',
+    listLastSeparator: ' and ',
+    tests: { one: '{count} test', other: '{count} tests' },
+    completedTests: { one: '{count} completed test', other: '{count} completed tests' },
+    files: { one: '{count} file', other: '{count} files' },
+    todos: { one: '{count} TODO', other: '{count} TODOs' },
+    noTests: 'No tests to run or all test might have been skipped or excluded.',
+    summary: 'Execution {status} after {duration} with {passing}{including} passing out of {total} over {files}',
+    summaryIncluding: ' (including {todos})',
+    passed: 'PASSED',
+    failed: 'FAILED',
+    interrupted: 'INTERRUPTED',
+    skippedTests: { one: '{tests} was skipped', other: '{tests} were skipped' },
+    cancelledTests: { one: '{tests} was cancelled', other: '{tests} were cancelled' },
+    failedTests: 'Failed tests:',
+    skippedTestsList: 'Skipped tests:',
+    todoTestsList: 'TODO tests:',
+    filesWithFailures: 'Files with failures:',
+    failureDetails: 'Failure details:',
+    testsStillRunning: 'Tests still running:',
+    runningFor: 'running for {duration}',
+    slowestTests: 'Slowest tests:',
+    slowestFiles: 'Slowest files:',
+    coverageReport: 'Coverage report:',
+    coverageBelowThresholds: 'Coverage is below the minimum thresholds for {metrics}.',
+    newlyFailingTests: 'Newly failing tests:',
+    newlyFixedTests: 'Newly fixed tests:',
+    flakyTests: 'Flaky tests:',
+    flakyChanges: 'changed status {changes} times in {runs} runs',
+    slowerTests: 'Slower tests:',
+    averageDuration: 'average {duration}',
+    watchRun: 'Run {number} {status} with {passing} passing out of {total} over {files}',
+    watchRerun: 'Rerun: {files}',
+    watchWaiting: 'Waiting for file changes ...',
+    moreLines: { one: '... {count} more line', other: '... {count} more lines' },
+    progressPassed: '{count} passed',
+    progressFailed: '{count} failed',
+    progressSkipped: '{count} skipped',
+    progressTodo: '{count} todo',
+    diffActual: '+ actual',
+    diffExpected: '- expected',
+    unchangedLines: { one: '... {count} unchanged line', other: '... {count} unchanged lines' },
+    slowTest: 'Test took {duration}.',
+    reportTitle: 'Test results',
+    reportFailures: 'Failures',
+    reportSlowestTests: 'Slowest tests',
+    reportFailuresCount: { one: '{count} failure', other: '{count} failures' },
+    reportTests: 'Tests',
+    reportSuites: 'Suites',
+    reportPassed: 'Passed',
+    reportFailed: 'Failed',
+    reportCancelled: 'Cancelled',
+    reportSkipped: 'Skipped',
+    reportTodo: 'TODO',
+    reportFiles: 'Files',
+    reportDuration: 'Duration',
+    reportTest: 'Test',
+    reportFile: 'File',
+    callbackAndPromisePresent: 'Test both accepted a callback but returned a Promise.',
+    cancelledByParent: 'Test cancelled by its parent.',
+    testAborted: 'Test aborted.',
+    parentAlreadyFinished: 'Parent test already completed.',
+    subtestsFailed: { one: '{count} subtest failed.', other: '{count} subtests failed.' },
+    testTimeoutFailure: 'Test timed out after {timeout}ms.',
+    hookFailed: 'Error while running {hook} hook.',
+    causedBy: 'Caused by:'
+  },
+  it: {
+    listSeparator: ', ',
+    listLastSeparator: ' e ',
+    tests: '{count} test',
+    completedTests: { one: '{count} test completato', other: '{count} test completati' },
+    files: '{count} file',
+    todos: '{count} TODO',
+    noTests: 'Nessun test da eseguire, oppure tutti i test potrebbero essere stati saltati o esclusi.',
+    summary: {
+      one: 'Esecuzione {status} dopo {duration} con {passing}{including} superato su {total} in {files}',
+      other: 'Esecuzione {status} dopo {duration} con {passing}{including} superati su {total} in {files}'
+    },
+    summaryIncluding: ' (inclusi {todos})',
+    passed: 'RIUSCITA',
+    failed: 'FALLITA',
+    interrupted: 'INTERROTTA',
+    skippedTests: { one: '{tests} è stato saltato', other: '{tests} sono stati saltati' },
+    cancelledTests: { one: '{tests} è stato annullato', other: '{tests} sono stati annullati' },
+    failedTests: 'Test falliti:',
+    skippedTestsList: 'Test saltati:',
+    todoTestsList: 'Test TODO:',
+    filesWithFailures: 'File con test falliti:',
+    failureDetails: 'Dettagli dei fallimenti:',
+    testsStillRunning: 'Test ancora in esecuzione:',
+    runningFor: 'in esecuzione da {duration}',
+    slowestTests: 'Test più lenti:',
+    slowestFiles: 'File più lenti:',
+    coverageReport: 'Report della copertura:',
+    coverageBelowThresholds: 'La copertura è inferiore alle soglie minime per {metrics}.',
+    newlyFailingTests: 'Test che hanno iniziato a fallire:',
+    newlyFixedTests: 'Test corretti:',
+    flakyTests: 'Test instabili:',
+    flakyChanges: 'ha cambiato stato {changes} volte in {runs} esecuzioni',
+    slowerTests: 'Test rallentati:',
+    averageDuration: 'media {duration}',
+    watchRun: {
+      one: 'Esecuzione {number} {status} con {passing} superato su {total} in {files}',
+      other: 'Esecuzione {number} {status} con {passing} superati su {total} in {files}'
+    },
+    watchRerun: 'Rieseguiti: {files}',
+    watchWaiting: 'In attesa di modifiche ai file ...',
+    moreLines: { one: '... {count} altra riga', other: '... altre {count} righe' },
+    progressPassed: { one: '{count} superato', other: '{count} superati' },
+    progressFailed: { one: '{count} fallito', other: '{count} falliti' },
+    progressSkipped: { one: '{count} saltato', other: '{count} saltati' },
+    progressTodo: '{count} TODO',
+    diffActual: '+ effettivo',
+    diffExpected: '- atteso',
+    unchangedLines: { one: '... {count} riga invariata', other: '... {count} righe invariate' },
+    slowTest: 'Il test ha impiegato {duration}.',
+    reportTitle: 'Risultati dei test',
+    reportFailures: 'Fallimenti',
+    reportSlowestTests: 'Test più lenti',
+    reportFailuresCount: { one: '{count} fallimento', other: '{count} fallimenti' },
+    reportTests: 'Test',
+    reportSuites: 'Suite',
+    reportPassed: 'Superati',
+    reportFailed: 'Falliti',
+    reportCancelled: 'Annullati',
+    reportSkipped: 'Saltati',
+    reportTodo: 'TODO',
+    reportFiles: 'File',
+    reportDuration: 'Durata',
+    reportTest: 'Test',
+    reportFile: 'File',
+    callbackAndPromisePresent: 'Il test ha accettato una callback ma ha anche restituito una Promise.',
+    cancelledByParent: 'Test annullato dal test padre.',
+    testAborted: 'Test interrotto.',
+    parentAlreadyFinished: 'Il test padre era già completato.',
+    subtestsFailed: { one: '{count} sottotest fallito.', other: '{count} sottotest falliti.' },
+    testTimeoutFailure: 'Il test è andato in timeout dopo {timeout}ms.',
+    hookFailed: "Errore durante l'esecuzione dell'hook {hook}.",
+    causedBy: 'Causato da:'
+  }
+}
+
+const PARAMETER_MATCHER = /\{(\w+)\}/g
+
+const pluralRules = new Map<LocaleName, Intl.PluralRules>()
+
+// Mirrors the precedence of the POSIX locale variables, ignoring the country and the encoding
+export function detectLocale(env: NodeJS.ProcessEnv = process.env): LocaleName {
+  const language = (env.LC_ALL || env.LC_MESSAGES || env.LANG || '').match(/^[a-z]{2,3}/i)?.[0].toLowerCase()
+
+  return localeNames.find(locale => locale === language) ?? 'en'
+}
+
+export function resolveLocale(name: LocaleName | 'auto', env: NodeJS.ProcessEnv = process.env): LocaleName {
+  return name === 'auto' ? detectLocale(env) : name
+}
+
+export function formatMessage(
+  locale: LocaleName,
+  name: MessageName,
+  parameters: Record<string, string | number> = {}
+): string {
+  let message = locales[locale][name]
+
+  if (typeof message !== 'string') {
+    let rules = pluralRules.get(locale)
+
+    if (!rules) {
+      rules = new Intl.PluralRules(locale)
+      pluralRules.set(locale, rules)
+    }
+
+    message = message[rules.select(Number(parameters.count ?? 0))] ?? message.other
+  }
+
+  return message.replace(PARAMETER_MATCHER, (match, parameter: string) =>
+    Object.hasOwn(parameters, parameter) ? String(parameters[parameter]) : match
+  )
+}
+
+export function formatList(locale: LocaleName, items: string[]): string {
+  const { listLastSeparator, listSeparator } = locales[locale]
+
+  return niceJoin(items, listLastSeparator, listSeparator)
+}
+
+export function formatLocalizedDuration(locale: LocaleName, duration: number): string {
+  const { listLastSeparator, listSeparator } = locales[locale]
+
+  return formatDuration(duration, locale, listLastSeparator, listSeparator)
+}
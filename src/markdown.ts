@@ -0,0 +1,164 @@
+import { appendFile, mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { type LocaleName, formatLocalizedDuration, formatMessage } from './locales.ts'
+import { type TestResult, type TestRunResults, isFileResult, isOwnFailure } from './results.ts'
+import { stripAnsi } from './utils.ts'
+
+export interface MarkdownOptions {
+  slowestCount: number
+  locale: LocaleName
+}
+
+function getTestKey(file: string, names: string[]): string {
+  return [file, ...names].join('\u0000')
+}
+
+export function escapeHtml(value: string): string {
+  return stripAnsi(value).replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;')
+}
+
+export function escapeMarkdown(value: string): string {
+  return stripAnsi(value)
+    .replace(/[\\`*_[\]<>|]/g, '\\$&')
+    .replace(/\r?\n/g, ' ')
+}
+
+// Shields.io uses dashes and underscores as separators, so they must be doubled
+export function formatBadge(label: string, message: string, color: string): string {
+  const encode = (value: string): string => encodeURIComponent(value.replaceAll('-', '--').replaceAll('_', '__'))
+
+  return `![${label}: ${message}](https://img.shields.io/badge/${encode(label)}-${encode(message)}-${color})`
+}
+
+// The fence must be longer than any sequence of backticks within the code
+export function formatCodeBlock(code: string): string[] {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(backticks => backticks.length))
+  const fence = '`'.repeat(Math.max(3, longest + 1))
+
+  return [fence, ...stripAnsi(code).split(/\r?\n/), fence]
+}
+
+function formatTable(headers: string[], rows: string[][], alignments: ('left' | 'right')[]): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${alignments.map(alignment => (alignment === 'right' ? '---:' : '---')).join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`)
+  ]
+}
+
+function formatFailures(tests: TestResult[], locale: LocaleName): string[] {
+  const files = Map.groupBy(tests.filter(isOwnFailure), test => test.file)
+
+  if (files.size === 0) {
+    return []
+  }
+
+  const lines = [`### ${formatMessage(locale, 'reportFailures')}`, '']
+
+  for (const [file, failures] of files) {
+    lines.push(
+      '<details>',
+      `<summary><code>${escapeHtml(file)}</code>: ${formatMessage(locale, 'reportFailuresCount', { count: failures.length })}</summary>`,
+      ''
+    )
+
+    for (const { fullName, line, error } of failures) {
+      const message = [error?.description, error?.message].filter(Boolean).join('\n\n')
+
+      // Files failing on their own have no location besides the file itself
+      const location = typeof line === 'number' ? ` (\`${file}:${line}\`)` : ''
+
+      lines.push(`- **${escapeMarkdown(fullName)}**${location}`, '')
+      lines.push(...formatCodeBlock(message).map(code => '  ' + code), '')
+    }
+
+    lines.push('</details>', '')
+  }
+
+  return lines
+}
+
+// Tests with subtests are not considered as their duration includes the one of their subtests
+function formatSlowest(tests: TestResult[], count: number, locale: LocaleName): string[] {
+  const parents = new Set(tests.map(test => getTestKey(test.file, test.ancestors)))
+  const slowest = tests
+    // Skipped and TODO tests do not run, or are not expected to work yet
+    .filter(test => test.status !== 'skipped' && test.status !== 'todo' && !isFileResult(test))
+    .filter(test => !parents.has(getTestKey(test.file, [...test.ancestors, test.name])))
+    .toSorted((a, b) => b.duration - a.duration)
+    .slice(0, count)
+
+  if (count === 0 || slowest.length === 0) {
+    return []
+  }
+
+  const rows = slowest.map(({ fullName, file, line, duration }) => [
+    escapeMarkdown(fullName),
+    `\`${file}:${line}\``,
+    `${duration}ms`
+  ])
+
+  const headers = [
+    formatMessage(locale, 'reportTest'),
+    formatMessage(locale, 'reportFile'),
+    formatMessage(locale, 'reportDuration')
+  ]
+
+  return [
+    `### ${formatMessage(locale, 'reportSlowestTests')}`,
+    '',
+    ...formatTable(headers, rows, ['left', 'left', 'right']),
+    ''
+  ]
+}
+
+export function formatMarkdownReport(results: TestRunResults, options: MarkdownOptions): string {
+  const { success, duration, totals, tests } = results
+  const { slowestCount, locale } = options
+
+  const counters = [
+    totals.tests,
+    totals.suites,
+    totals.passed,
+    totals.failed,
+    totals.cancelled,
+    totals.skipped,
+    totals.todo,
+    totals.files
+  ].map(String)
+
+  const headers = [
+    'reportTests',
+    'reportSuites',
+    'reportPassed',
+    'reportFailed',
+    'reportCancelled',
+    'reportSkipped',
+    'reportTodo',
+    'reportFiles',
+    'reportDuration'
+  ] as const
+
+  const lines = [
+    `## ${formatMessage(locale, 'reportTitle')}`,
+    '',
+    formatBadge('tests', success ? 'passed' : 'failed', success ? 'brightgreen' : 'red'),
+    '',
+    ...formatTable(
+      headers.map(header => formatMessage(locale, header)),
+      [[...counters, formatLocalizedDuration(locale, duration)]],
+      Array(headers.length).fill('right')
+    ),
+    '',
+    ...formatFailures(tests, locale),
+    ...formatSlowest(tests, slowestCount, locale)
+  ]
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+// The GitHub Actions job summary is shared by all the steps of the job, so the report is appended to it
+export async function writeMarkdown(path: string, report: string, append: boolean = false): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await (append ? appendFile(path, report, 'utf-8') : writeFile(path, report, 'utf-8'))
+}
@@ -0,0 +1,444 @@
+import { readFileSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { type CoverageThresholds, coverageMetrics } from './coverage.ts'
+import { type GitHubAnnotationType, gitHubAnnotationTypes } from './github.ts'
+import { type LocaleName, localeNames, resolveLocale } from './locales.ts'
+import { type RerunCommandsMode, rerunCommandsModes } from './rerun.ts'
+import { type StackFrameType } from './stack.ts'
+import {
+  type ColorName,
+  type SymbolName,
+  type ThemeName,
+  colorNames,
+  resolveColor,
+  resolveThemeName,
+  symbolNames,
+  themeNames,
+  themes
+} from './themes.ts'
+
+export type ColorMode = 'auto' | 'always' | 'never'
+
+export type TerminalMode = 'auto' | 'always' | 'never'
+
+export type Verbosity = 'quiet' | 'normal' | 'verbose'
+
+export type OutputMode = 'tree' | 'dots'
+
+export type TestOutputMode = 'all' | 'failures' | 'none'
+
+export type OutputSection = 'tests' | 'diagnostics' | 'summary' | 'coverage' | 'slowest' | 'failures' | 'files'
+
+export type HideableTestStatus = 'passed' | 'skipped' | 'todo'
+
+export type ListableTestStatus = 'skipped' | 'todo'
+
+export interface TestReporterOptions {
+  cwd?: string
+  color?: ColorMode
+  theme?: ThemeName | 'auto'
+  symbols?: Partial<Record<SymbolName, string>>
+  colors?: Partial<Record<ColorName, string>>
+  locale?: LocaleName | 'auto'
+  indentation?: number
+  verbosity?: Verbosity
+  mode?: OutputMode
+  sections?: OutputSection[]
+  diffContext?: number
+  stackFilter?: StackFrameType[]
+  sourceExcerpt?: boolean
+  sourceContext?: number
+  slowestCount?: number
+  slowThreshold?: number
+  coverageThresholds?: Partial<CoverageThresholds>
+  coverageOnlyBelow?: boolean
+  coverageEnforce?: boolean
+  jsonOutput?: string
+  junitOutput?: string
+  markdownOutput?: string
+  githubStepSummary?: boolean
+  githubAnnotations?: GitHubAnnotationType[]
+  watchClearScreen?: boolean
+  hideTests?: HideableTestStatus[]
+  listTests?: ListableTestStatus[]
+  // Output reported before the events of its test, as Node.js does with process isolation, is shown with its file
+  testOutput?: TestOutputMode
+  testOutputLines?: number
+  rerunCommands?: RerunCommandsMode
+  failureDetails?: boolean
+  history?: boolean
+  historyFile?: string
+  historySize?: number
+  width?: number
+  statusLine?: boolean
+  terminal?: TerminalMode
+}
+
+export type ResolvedTestReporterOptions = Required<
+  Omit<TestReporterOptions, 'coverageThresholds' | 'jsonOutput' | 'junitOutput' | 'markdownOutput' | 'locale'>
+> & {
+  coverageThresholds: CoverageThresholds
+  locale: LocaleName
+  jsonOutput?: string
+  junitOutput?: string
+  markdownOutput?: string
+}
+
+type OptionType = 'string' | 'integer' | 'boolean' | 'enum' | 'list' | 'object'
+
+interface OptionDefinition {
+  type: OptionType
+  values?: readonly string[]
+  valueType?: 'string' | 'number'
+  min?: number
+  max?: number
+}
+
+export const PACKAGE_JSON_KEY = 'cleaner-spec-reporter'
+export const ENV_PREFIX = 'CLEANER_SPEC_REPORTER_'
+
+export const colorModes: readonly ColorMode[] = ['auto', 'always', 'never']
+export const terminalModes: readonly TerminalMode[] = ['auto', 'always', 'never']
+export const verbosities: readonly Verbosity[] = ['quiet', 'normal', 'verbose']
+export const outputModes: readonly OutputMode[] = ['tree', 'dots']
+export const testOutputModes: readonly TestOutputMode[] = ['all', 'failures', 'none']
+export const outputSections: readonly OutputSection[] = [
+  'tests',
+  'diagnostics',
+  'summary',
+  'coverage',
+  'slowest',
+  'failures',
+  'files'
+]
+export const hideableTestStatuses: readonly HideableTestStatus[] = ['passed', 'skipped', 'todo']
+export const listableTestStatuses: readonly ListableTestStatus[] = ['skipped', 'todo']
+export const stackFrameTypes: readonly StackFrameType[] = ['internal', 'node_modules']
+
+export const optionsDefinitions: Record<keyof TestReporterOptions, OptionDefinition> = {
+  cwd: { type: 'string' },
+  color: { type: 'enum', values: colorModes },
+  theme: { type: 'enum', values: ['auto', ...themeNames] },
+  symbols: { type: 'object', values: symbolNames, valueType: 'string' },
+  colors: { type: 'object', values: colorNames, valueType: 'string' },
+  locale: { type: 'enum', values: ['auto', ...localeNames] },
+  indentation: { type: 'integer', min: 1 },
+  verbosity: { type: 'enum', values: verbosities },
+  mode: { type: 'enum', values: outputModes },
+  sections: { type: 'list', values: outputSections },
+  diffContext: { type: 'integer', min: 0 },
+  stackFilter: { type: 'list', values: stackFrameTypes },
+  sourceExcerpt: { type: 'boolean' },
+  sourceContext: { type: 'integer', min: 0 },
+  slowestCount: { type: 'integer', min: 0 },
+  slowThreshold: { type: 'integer', min: 0 },
+  coverageThresholds: { type: 'object', values: coverageMetrics, valueType: 'number', min: 0, max: 100 },
+  coverageOnlyBelow: { type: 'boolean' },
+  coverageEnforce: { type: 'boolean' },
+  jsonOutput: { type: 'string' },
+  junitOutput: { type: 'string' },
+  markdownOutput: { type: 'string' },
+  githubStepSummary: { type: 'boolean' },
+  githubAnnotations: { type: 'list', values: gitHubAnnotationTypes },
+  watchClearScreen: { type: 'boolean' },
+  hideTests: { type: 'list', values: hideableTestStatuses },
+  listTests: { type: 'list', values: listableTestStatuses },
+  testOutput: { type: 'enum', values: testOutputModes },
+  testOutputLines: { type: 'integer', min: 0 },
+  rerunCommands: { type: 'enum', values: rerunCommandsModes },
+  failureDetails: { type: 'boolean' },
+  history: { type: 'boolean' },
+  historyFile: { type: 'string' },
+  historySize: { type: 'integer', min: 1 },
+  width: { type: 'integer', min: 0 },
+  statusLine: { type: 'boolean' },
+  terminal: { type: 'enum', values: terminalModes }
+}
+
+export const defaultOptions: Omit<
+  ResolvedTestReporterOptions,
+  'cwd' | 'symbols' | 'colors' | 'coverageThresholds' | 'locale'
+> = {
+  color: 'auto',
+  theme: 'auto',
+  indentation: 2,
+  verbosity: 'normal',
+  mode: 'tree',
+  sections: [...outputSections],
+  diffContext: 3,
+  stackFilter: [...stackFrameTypes],
+  sourceExcerpt: true,
+  sourceContext: 2,
+  slowestCount: 0,
+  slowThreshold: 0,
+  coverageOnlyBelow: false,
+  coverageEnforce: false,
+  githubStepSummary: false,
+  githubAnnotations: [],
+  watchClearScreen: false,
+  hideTests: [],
+  listTests: [],
+  testOutput: 'all',
+  testOutputLines: 0,
+  rerunCommands: 'files',
+  failureDetails: false,
+  history: false,
+  historyFile: 'node_modules/.cache/cleaner-spec-reporter/history.json',
+  historySize: 10,
+  width: 0,
+  statusLine: true,
+  terminal: 'auto'
+}
+
+export const defaultCoverageThresholds: CoverageThresholds = { lines: 80, branches: 80, functions: 80 }
+
+function envName(option: string): string {
+  return ENV_PREFIX + option.replaceAll(/[A-Z]/g, letter => `_${letter}`).toUpperCase()
+}
+
+function parseEnvValue(option: string, definition: OptionDefinition, raw: string): unknown {
+  switch (definition.type) {
+    case 'integer':
+      return /^-?\d+$/.test(raw.trim()) ? parseInt(raw, 10) : raw
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : raw
+    case 'list':
+      return raw
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean)
+    case 'object':
+      try {
+        return JSON.parse(raw)
+      } catch {
+        throw new TypeError(`The ${envName(option)} environment variable must contain valid JSON.`)
+      }
+    default:
+      return raw
+  }
+}
+
+function describeValues(values: readonly string[]): string {
+  return values.map(value => `"${value}"`).join(', ')
+}
+
+export function validateOption(option: string, value: unknown): void {
+  const definition = optionsDefinitions[option as keyof TestReporterOptions]
+
+  if (!definition) {
+    throw new TypeError(`Unknown option "${option}".`)
+  }
+
+  switch (definition.type) {
+    case 'string':
+      if (typeof value !== 'string' || value.length === 0) {
+        throw new TypeError(`The "${option}" option must be a non-empty string.`)
+      }
+      break
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < (definition.min ?? 0)) {
+        throw new TypeError(
+          `The "${option}" option must be an integer greater than or equal to ${definition.min ?? 0}.`
+        )
+      }
+      break
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new TypeError(`The "${option}" option must be a boolean.`)
+      }
+      break
+    case 'enum':
+      if (!definition.values!.includes(value as string)) {
+        throw new TypeError(`The "${option}" option must be one of ${describeValues(definition.values!)}.`)
+      }
+      break
+    case 'list':
+      if (!Array.isArray(value) || value.some(item => !definition.values!.includes(item))) {
+        throw new TypeError(
+          `The "${option}" option must be an array containing only ${describeValues(definition.values!)}.`
+        )
+      }
+      break
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new TypeError(`The "${option}" option must be an object.`)
+      }
+
+      for (const [key, entry] of Object.entries(value)) {
+        const valid =
+          definition.valueType === 'number'
+            ? typeof entry === 'number' && entry >= definition.min! && entry <= definition.max!
+            : typeof entry === 'string'
+
+        if (!definition.values!.includes(key) || !valid) {
+          const range = definition.valueType === 'number' ? ` between ${definition.min} and ${definition.max}` : ''
+
+          throw new TypeError(
+            `The "${option}" option can only contain ${definition.valueType} values${range} for the keys ${describeValues(definition.values!)}.`
+          )
+        }
+      }
+      break
+  }
+}
+
+export function validateOptions(options: unknown): TestReporterOptions {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new TypeError('The reporter options must be an object.')
+  }
+
+  for (const [option, value] of Object.entries(options)) {
+    // Undefined values are treated as not provided, so that they can be easily spread
+    if (typeof value !== 'undefined') {
+      validateOption(option, value)
+    }
+  }
+
+  return options as TestReporterOptions
+}
+
+export function loadPackageJsonOptions(root: string = process.cwd()): TestReporterOptions {
+  let contents: string
+
+  try {
+    contents = readFileSync(resolve(root, 'package.json'), 'utf-8')
+  } catch {
+    return {}
+  }
+
+  let options: unknown
+
+  try {
+    options = JSON.parse(contents)[PACKAGE_JSON_KEY]
+  } catch {
+    return {}
+  }
+
+  if (typeof options === 'undefined') {
+    return {}
+  }
+
+  try {
+    return validateOptions(options)
+  } catch (error) {
+    throw new TypeError(`Invalid "${PACKAGE_JSON_KEY}" key in package.json: ${(error as Error).message}`)
+  }
+}
+
+// The reporter only writes to a stream, which goes to the standard output unless the test runner is told otherwise
+export function isTerminalOutput(
+  execArgv: string[] = process.execArgv,
+  isTTY: boolean = Boolean(process.stdout.isTTY)
+): boolean {
+  if (!isTTY) {
+    return false
+  }
+
+  for (const [i, arg] of execArgv.entries()) {
+    const destination =
+      arg === '--test-reporter-destination'
+        ? execArgv[i + 1]
+        : arg.startsWith('--test-reporter-destination=')
+          ? arg.slice(arg.indexOf('=') + 1)
+          : 'stdout'
+
+    if (destination !== 'stdout') {
+      return false
+    }
+  }
+
+  return true
+}
+
+export function resolveTerminal(mode: TerminalMode, terminal: boolean = isTerminalOutput()): boolean {
+  if (mode !== 'auto') {
+    return mode === 'always'
+  }
+
+  return terminal
+}
+
+// Defaults which depend on the environment, which can still be overridden by package.json
+export function loadEnvDefaults(env: NodeJS.ProcessEnv = process.env): TestReporterOptions {
+  const options: TestReporterOptions = {}
+
+  // Automatically annotate failures when running in GitHub Actions
+  if (env.GITHUB_ACTIONS === 'true') {
+    options.githubAnnotations = ['failures']
+  }
+
+  return options
+}
+
+export function loadEnvOptions(env: NodeJS.ProcessEnv = process.env): TestReporterOptions {
+  const options: Record<string, unknown> = {}
+
+  // Legacy variables, kept for compatibility
+  if (env.TEST_ROOT) {
+    options.cwd = env.TEST_ROOT
+  }
+
+  if (env.FORCE_COLOR === 'true') {
+    options.color = 'always'
+  } else if (env.NO_COLOR === 'true') {
+    options.color = 'never'
+  }
+
+  for (const [option, definition] of Object.entries(optionsDefinitions)) {
+    const raw = env[envName(option)]
+
+    if (typeof raw === 'string' && raw.length > 0) {
+      options[option] = parseEnvValue(option, definition, raw)
+    }
+  }
+
+  return validateOptions(options)
+}
+
+export function resolveOptions(
+  options: TestReporterOptions = {},
+  defaultSymbols: Record<string, string> = {}
+): ResolvedTestReporterOptions {
+  validateOptions(options)
+
+  const env = loadEnvOptions()
+  // The package.json is read from the root given explicitly, since it cannot move its own root
+  const cwd = options.cwd ?? env.cwd ?? process.cwd()
+  const packageJson = loadPackageJsonOptions(cwd)
+  const sources = [loadEnvDefaults(), packageJson, env, options]
+
+  const resolved: Record<string, unknown> = { ...defaultOptions, cwd }
+  const symbols: Record<string, string> = {}
+  const colors: Record<string, string> = {}
+  const coverageThresholds = { ...defaultCoverageThresholds }
+
+  for (const source of sources) {
+    for (const [option, value] of Object.entries(source)) {
+      if (typeof value === 'undefined') {
+        continue
+      }
+
+      if (option === 'symbols') {
+        Object.assign(symbols, value)
+      } else if (option === 'colors') {
+        Object.assign(colors, value)
+      } else if (option === 'coverageThresholds') {
+        Object.assign(coverageThresholds, value)
+      } else {
+        resolved[option] = value
+      }
+    }
+  }
+
+  // Explicit symbols and colors customize the theme
+  const theme = themes[resolveThemeName(resolved.theme as ThemeName | 'auto')]
+
+  resolved.symbols = { ...defaultSymbols, ...theme.symbols, ...symbols }
+  resolved.colors = Object.fromEntries(
+    Object.entries({ ...theme.colors, ...colors }).map(([name, color]) => [name, resolveColor(color)])
+  )
+  resolved.coverageThresholds = coverageThresholds
+  resolved.locale = resolveLocale((resolved.locale as LocaleName | undefined) ?? 'auto')
+
+  return resolved as ResolvedTestReporterOptions
+}
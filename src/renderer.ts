@@ -0,0 +1,46 @@
+import { Transform } from 'node:stream'
+import {
+  type Callback,
+  type CollectedRun,
+  type CollectorEvent,
+  type TestCollectorOptions,
+  type TestReport,
+  TestCollector
+} from './collector.ts'
+
+export interface TestRenderer {
+  // Renders each event of the test runner, once it has been collected
+  render(event: CollectorEvent): string
+  // Renders the end of the run, once all the results have been collected
+  finish(run: CollectedRun): string | Promise<string>
+}
+
+// Turns a renderer into a reporter for the test runner
+export class RendererReporter extends Transform implements TestRenderer {
+  #collector: TestCollector
+  #renderer: TestRenderer | null
+
+  constructor(renderer: TestRenderer | null = null, options: TestCollectorOptions = {}) {
+    super({ writableObjectMode: true })
+
+    this.#collector = new TestCollector(options)
+    this.#renderer = renderer
+  }
+
+  // Subclasses can render the events themselves, in place of using a separate renderer
+  render(event: CollectorEvent): string {
+    return this.#renderer?.render(event) ?? ''
+  }
+
+  finish(run: CollectedRun): string | Promise<string> {
+    return this.#renderer?.finish(run) ?? ''
+  }
+
+  _transform(report: TestReport, _encoding: string, callback: Callback<string>): void {
+    callback(null, this.render(this.#collector.collect(report)))
+  }
+
+  _flush(callback: Callback<string>): void {
+    Promise.resolve(this.finish(this.#collector.finish())).then(message => callback(null, message), callback)
+  }
+}
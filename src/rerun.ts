@@ -0,0 +1,28 @@
+export type RerunCommandsMode = 'none' | 'files' | 'tests'
+
+export const rerunCommandsModes: readonly RerunCommandsMode[] = ['none', 'files', 'tests']
+
+// Characters which are safe to use in a shell argument without quoting
+const SAFE_SHELL_ARGUMENT = /^[\w@%+=:,./-]+$/
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export function quoteShellArgument(value: string): string {
+  // Within double quotes, POSIX shells still interpret backslashes, double quotes, backticks and dollar signs,
+  // unless the latter are at the end of the argument
+  return `"${value.replace(/["`\\]|\$(?!$)/g, '\\$&')}"`
+}
+
+// The test runner matches patterns against the name of the test prefixed by the names of its ancestors, space separated
+export function formatTestNamePattern(names: string[]): string {
+  return `^${names.map(escapeRegExp).join(' ')}$`
+}
+
+export function formatRerunCommand(file: string, patterns: string[] = []): string {
+  const args = ['node', '--test', ...patterns.map(pattern => `--test-name-pattern=${quoteShellArgument(pattern)}`)]
+
+  args.push(SAFE_SHELL_ARGUMENT.test(file) ? file : quoteShellArgument(file))
+  return args.join(' ')
+}
@@ -0,0 +1,165 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { type CoverageSummary } from './coverage.ts'
+import { type LocaleName, formatMessage } from './locales.ts'
+
+export interface TestError extends Error {
+  code: string
+  failureType: string
+  cause: Error | string
+}
+
+export type TestStatus = 'passed' | 'failed' | 'cancelled' | 'skipped' | 'todo'
+
+export type TestType = 'suite' | 'test'
+
+export interface TestResultError {
+  message: string
+  stack?: string
+  failureType?: string
+  description?: string
+  code?: string
+}
+
+export interface TestResult {
+  type: TestType
+  name: string
+  fullName: string
+  ancestors: string[]
+  file: string
+  line?: number
+  column?: number
+  nesting: number
+  status: TestStatus
+  duration: number
+  reason?: string
+  error?: TestResultError
+}
+
+export interface TestRunTotals {
+  tests: number
+  suites: number
+  passed: number
+  failed: number
+  cancelled: number
+  skipped: number
+  todo: number
+  files: number
+}
+
+export interface TestRunResults {
+  success: boolean
+  duration: number
+  totals: TestRunTotals
+  files: string[]
+  tests: TestResult[]
+  coverage?: CoverageSummary
+}
+
+// The full names are stored in the reports and in the history, so they never depend on the symbols of the output
+export const FULL_NAME_SEPARATOR = ' > '
+
+const SUBTESTS_FAILED = /^(\d+) subtest(s)? failed$/
+const FAILED_HOOK_MATCHER = /failed running (.+) hook/
+const TIMEOUT_MATCHER = /^test timed out after (\d+)ms$/
+
+export function describeFailure(
+  error: { failureType?: string; message?: string },
+  locale: LocaleName = 'en'
+): string | undefined {
+  switch (error.failureType) {
+    case 'callbackAndPromisePresent':
+    case 'cancelledByParent':
+    case 'testAborted':
+    case 'parentAlreadyFinished':
+      return formatMessage(locale, error.failureType)
+    case 'subtestsFailed':
+      return formatMessage(locale, 'subtestsFailed', {
+        count: parseInt(error.message?.match(SUBTESTS_FAILED)?.[1] ?? '0', 10)
+      })
+    case 'testTimeoutFailure':
+      return formatMessage(locale, 'testTimeoutFailure', {
+        timeout: parseInt(error.message?.match(TIMEOUT_MATCHER)?.[1] ?? '0', 10)
+      })
+    case 'hookFailed':
+      return formatMessage(locale, 'hookFailed', { hook: error.message?.match(FAILED_HOOK_MATCHER)?.[1] ?? 'unknown' })
+    default:
+      // Test code failures are fully described by the error itself
+      return undefined
+  }
+}
+
+export function getFullName(ancestors: string[], name: string): string {
+  return [...ancestors, name].join(FULL_NAME_SEPARATOR)
+}
+
+// Files failing on their own, for instance when they throw while being loaded, are reported as a test named after them
+export function isFileResult(result: TestResult): boolean {
+  return result.nesting === 0 && result.ancestors.length === 0 && result.name === result.file
+}
+
+// When only subtests failed, the failures are already reported by the subtests themselves
+export function isOwnFailure(result: TestResult): boolean {
+  return (result.status === 'failed' || result.status === 'cancelled') && result.error?.failureType !== 'subtestsFailed'
+}
+
+export function getTestStatus(
+  passed: boolean,
+  skip: boolean | string | undefined,
+  todo: boolean | string | undefined,
+  failureType?: string
+): TestStatus {
+  if (todo) {
+    return 'todo'
+  } else if (skip) {
+    return 'skipped'
+  } else if (passed) {
+    return 'passed'
+  }
+
+  return failureType === 'cancelledByParent' ? 'cancelled' : 'failed'
+}
+
+export function getTestReason(
+  skip: boolean | string | undefined,
+  todo: boolean | string | undefined
+): string | undefined {
+  if (typeof todo === 'string' && todo) {
+    return todo
+  } else if (typeof skip === 'string' && skip) {
+    return skip
+  }
+
+  return undefined
+}
+
+export function serializeTestError(error: Error & { failureType?: string; code?: string }): TestResultError {
+  // Test runner errors wrap the original error, which is the meaningful one
+  const cause = error.failureType === 'testCodeFailure' || error.failureType === 'hookFailed' ? error.cause : undefined
+
+  const serialized: TestResultError = {
+    message: typeof cause === 'string' ? cause : ((cause as Error | undefined)?.message ?? error.message),
+    stack: typeof cause === 'string' ? undefined : ((cause as Error | undefined)?.stack ?? error.stack)
+  }
+
+  if (error.failureType) {
+    serialized.failureType = error.failureType
+
+    const description = describeFailure(error)
+
+    if (description) {
+      serialized.description = description
+    }
+  }
+
+  if (error.code) {
+    serialized.code = error.code
+  }
+
+  return serialized
+}
+
+export async function writeResults(path: string, results: TestRunResults): Promise<void> {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify(results, null, 2) + '\n', 'utf-8')
+}
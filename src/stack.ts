@@ -0,0 +1,153 @@
+import { readFileSync } from 'node:fs'
+import { isAbsolute, relative } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+export type StackFrameType = 'internal' | 'node_modules'
+
+export interface StackFrame {
+  prefix: string
+  name?: string
+  location: string
+  file?: string
+  line?: number
+  column?: number
+}
+
+export interface StackOptions {
+  cwd: string
+  filter: StackFrameType[]
+  excerpt: boolean
+  context: number
+  colors: Record<string, string>
+  sources?: Map<string, string[] | null>
+}
+
+const FRAME_MATCHER = /^(\s+at )(?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/
+const ANONYMOUS_FRAME_MATCHER = /^(\s+at )(.+?) \((<anonymous>|index \d+|native)\)$/
+
+export function parseStackFrame(raw: string): StackFrame | null {
+  const mo = raw.match(FRAME_MATCHER)
+
+  if (!mo) {
+    const anonymous = raw.match(ANONYMOUS_FRAME_MATCHER)
+
+    return anonymous ? { prefix: anonymous[1], name: anonymous[2], location: anonymous[3] } : null
+  }
+
+  const [, prefix, name, location, line, column] = mo
+  const frame: StackFrame = { prefix, name, location, line: parseInt(line, 10), column: parseInt(column, 10) }
+
+  if (location.startsWith('file://')) {
+    frame.file = fileURLToPath(location)
+  } else if (isAbsolute(location)) {
+    frame.file = location
+  }
+
+  return frame
+}
+
+export function getStackFrameType(frame: StackFrame): StackFrameType | 'user' {
+  if (!frame.file) {
+    return 'internal'
+  }
+
+  return /[\\/]node_modules[\\/]/.test(frame.file) ? 'node_modules' : 'user'
+}
+
+export function formatStackFrame(frame: StackFrame, cwd: string): string {
+  const location = frame.file
+    ? `${relative(cwd, frame.file).replaceAll('\\', '/')}:${frame.line}:${frame.column}`
+    : typeof frame.line === 'number'
+      ? `${frame.location}:${frame.line}:${frame.column}`
+      : frame.location
+
+  return frame.name ? `${frame.prefix}${frame.name} (${location})` : `${frame.prefix}${location}`
+}
+
+export function readSourceLines(file: string, sources?: Map<string, string[] | null>): string[] | null {
+  if (sources?.has(file)) {
+    return sources.get(file)!
+  }
+
+  let lines: string[] | null
+
+  try {
+    lines = readFileSync(file, 'utf-8').split(/\r?\n/)
+  } catch {
+    lines = null
+  }
+
+  sources?.set(file, lines)
+  return lines
+}
+
+export function formatSourceExcerpt(
+  frame: StackFrame,
+  context: number,
+  colors: Record<string, string>,
+  sources?: Map<string, string[] | null>
+): string[] {
+  const lines = frame.file ? readSourceLines(frame.file, sources) : null
+
+  if (!lines || !frame.line || frame.line > lines.length) {
+    return []
+  }
+
+  const { gray, red, bold, reset } = colors
+  const first = Math.max(1, frame.line - context)
+  const last = Math.min(lines.length, frame.line + context)
+  const width = String(last).length
+  const excerpt: string[] = []
+
+  for (let i = first; i <= last; i++) {
+    const number = String(i).padStart(width, ' ')
+    const source = lines[i - 1].replaceAll('\t', ' ')
+
+    if (i === frame.line) {
+      excerpt.push(`${red}${bold}>${reset} ${gray}${number} |${reset} ${source}`)
+      excerpt.push(`  ${gray}${' '.repeat(width)} |${reset} ${' '.repeat(frame.column! - 1)}${red}${bold}^${reset}`)
+    } else {
+      excerpt.push(`  ${gray}${number} |${reset} ${source}`)
+    }
+  }
+
+  return excerpt
+}
+
+export function cleanStack(text: string, options: StackOptions): string {
+  const output: string[] = []
+  let excerptShown = !options.excerpt
+
+  for (const line of text.split(/\r?\n/)) {
+    const frame = parseStackFrame(line)
+
+    if (!frame) {
+      output.push(line)
+      continue
+    }
+
+    const type = getStackFrameType(frame)
+
+    if (type !== 'user' && options.filter.includes(type)) {
+      continue
+    }
+
+    // Show the source code of the first frame which belongs to the user code, before the frames themselves
+    if (!excerptShown && type === 'user') {
+      const excerpt = formatSourceExcerpt(frame, options.context, options.colors, options.sources)
+
+      if (excerpt.length) {
+        if (output.at(-1) !== '') {
+          output.push('')
+        }
+
+        output.push(...excerpt, '')
+        excerptShown = true
+      }
+    }
+
+    output.push(formatStackFrame(frame, options.cwd))
+  }
+
+  return output.join('\n')
+}
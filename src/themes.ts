@@ -0,0 +1,91 @@
+import { inspect } from 'node:util'
+
+export type ThemeName = 'default' | 'ascii' | 'high-contrast' | 'colorblind'
+
+export type SymbolName = 'fail' | 'pass' | 'diagnostic' | 'coverage' | 'rightArrow' | 'hyphen' | 'verticalBar'
+
+export type ColorName = 'blue' | 'green' | 'white' | 'yellow' | 'red' | 'gray'
+
+export interface Theme {
+  symbols: Partial<Record<SymbolName, string>>
+  colors: Partial<Record<ColorName, string>>
+}
+
+export const themeNames: readonly ThemeName[] = ['default', 'ascii', 'high-contrast', 'colorblind']
+export const symbolNames: readonly SymbolName[] = [
+  'fail',
+  'pass',
+  'diagnostic',
+  'coverage',
+  'rightArrow',
+  'hyphen',
+  'verticalBar'
+]
+export const colorNames: readonly ColorName[] = ['blue', 'green', 'white', 'yellow', 'red', 'gray']
+
+// The default theme uses TestReporter.symbols and TestReporter.colors
+export const themes: Record<ThemeName, Theme> = {
+  default: { symbols: {}, colors: {} },
+  ascii: {
+    symbols: {
+      fail: 'x ',
+      pass: 'v ',
+      diagnostic: 'i ',
+      coverage: 'i ',
+      rightArrow: '> ',
+      hyphen: '- ',
+      verticalBar: '|'
+    },
+    colors: {}
+  },
+  'high-contrast': {
+    symbols: {},
+    colors: {
+      blue: '\u001b[94m',
+      green: '\u001b[92m',
+      white: '\u001b[97m',
+      yellow: '\u001b[93m',
+      red: '\u001b[91m',
+      gray: '\u001b[37m'
+    }
+  },
+  // Avoid telling results apart by red and green, which are the hardest colors to distinguish
+  colorblind: {
+    symbols: {},
+    colors: {
+      green: '\u001b[36m',
+      red: '\u001b[35m'
+    }
+  }
+}
+
+// Mirrors the heuristics of most terminal libraries: only some Windows terminals can render Unicode
+export function isUnicodeSupported(env: NodeJS.ProcessEnv = process.env, platform: string = process.platform): boolean {
+  if (platform !== 'win32') {
+    return env.TERM !== 'linux'
+  }
+
+  return Boolean(
+    env.WT_SESSION ||
+    env.TERMINUS_SUBLIME ||
+    env.ConEmuTask === '{cmd::Cmder}' ||
+    env.TERM_PROGRAM === 'vscode' ||
+    env.TERM === 'xterm-256color' ||
+    env.TERM === 'alacritty'
+  )
+}
+
+export function resolveThemeName(name: ThemeName | 'auto', unicode: boolean = isUnicodeSupported()): ThemeName {
+  if (name !== 'auto') {
+    return name
+  }
+
+  return unicode ? 'default' : 'ascii'
+}
+
+// Colors can be provided either as names of the inspect colors (like "magenta" or "redBright") or as escape sequences
+export function resolveColor(color: string): string {
+  const codes = Object.hasOwn(inspect.colors, color) ? inspect.colors[color] : undefined
+
+  return codes ? `\u001b[${codes[0]}m` : color
+}
@@ -0,0 +1,153 @@
+function formatUnit(value: number, unit: string, locale: string, fractionDigits: number = 0): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit,
+    unitDisplay: 'long',
+    useGrouping: false,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  }).format(value)
+}
+
+export function formatDuration(
+  duration: number,
+  locale: string = 'en',
+  lastSeparator: string = ' and ',
+  separator: string = ', '
+): string {
+  duration /= 1000
+  const message = []
+
+  if (duration >= 3600) {
+    const hours = Math.floor(duration / 3600)
+    message.push(formatUnit(hours, 'hour', locale))
+    duration = duration % 3600
+  }
+
+  if (duration >= 60) {
+    const minutes = Math.floor(duration / 60)
+    message.push(formatUnit(minutes, 'minute', locale))
+    duration = duration % 60
+  }
+
+  message.push(formatUnit(duration, 'second', locale, Math.round(duration) !== duration ? 3 : 0))
+
+  return niceJoin(message, lastSeparator, separator)
+}
+
+export function niceJoin(array: string[], lastSeparator: string = ' and ', separator: string = ', '): string {
+  switch (array.length) {
+    case 0:
+      return ''
+    case 1:
+      return array[0]
+    case 2:
+      return array.join(lastSeparator)
+    default:
+      return array.slice(0, -1).join(separator) + lastSeparator + array.at(-1)!
+  }
+}
+
+// Lines are not wrapped when the space left by the indentation is too small to be useful
+const MINIMUM_WRAP_WIDTH = 20
+
+const ESCAPE = '\u001b'
+
+const ANSI_MATCHER = new RegExp(`${ESCAPE}\\[[\\d;]*m`, 'g')
+
+const TOKEN_MATCHER = new RegExp(`${ESCAPE}\\[[\\d;]*m|[^]`, 'gu')
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_MATCHER, '')
+}
+
+export function visibleLength(text: string): number {
+  return [...stripAnsi(text)].length
+}
+
+function isVisible(token: string): boolean {
+  return token.length > 0 && !(token.startsWith('\u001b[') && token.endsWith('m'))
+}
+
+function updateStyles(styles: string[], tokens: string[]): string[] {
+  let updated = styles
+
+  for (const token of tokens) {
+    if (!isVisible(token)) {
+      updated = token === '\u001b[0m' ? [] : [...updated, token]
+    }
+  }
+
+  return updated
+}
+
+// Wraps a line which starts with the given prefix, repeating the prefix and the active styles on each wrapped line
+export function wrapLine(line: string, width: number, prefix: string = ''): string[] {
+  const available = width - visibleLength(prefix)
+
+  if (width <= 0 || available < MINIMUM_WRAP_WIDTH || visibleLength(line) <= width) {
+    return [line]
+  }
+
+  const lines: string[] = []
+  let styles: string[] = []
+  let current: string[] = []
+  let length = 0
+  let space = -1
+
+  for (const token of line.slice(prefix.length).match(TOKEN_MATCHER)!) {
+    const visible = isVisible(token)
+
+    if (visible && length === available) {
+      // Prefer breaking at the last space, unless it would leave the line empty
+      const end = space > 0 ? space : current.length
+      const consumed = space > 0 ? space + 1 : end
+      const nextStyles = updateStyles(styles, current.slice(0, consumed))
+
+      lines.push(prefix + styles.join('') + current.slice(0, end).join('') + (nextStyles.length ? '\u001b[0m' : ''))
+
+      styles = nextStyles
+      current = current.slice(consumed)
+      length = current.filter(isVisible).length
+      space = -1
+    }
+
+    if (token === ' ') {
+      space = current.length
+    }
+
+    current.push(token)
+
+    if (visible) {
+      length++
+    }
+  }
+
+  lines.push(prefix + styles.join('') + current.join(''))
+  return lines
+}
+
+// Truncates a line to the given visible width, keeping its escape sequences so that the styles are still reset
+export function truncateLine(line: string, width: number, ellipsis: string = '...'): string {
+  if (visibleLength(line) <= width) {
+    return line
+  }
+
+  const available = Math.max(width - ellipsis.length, 0)
+  let truncated = ''
+  let length = 0
+
+  for (const token of line.match(TOKEN_MATCHER)!) {
+    if (!isVisible(token)) {
+      truncated += token
+    } else if (length < available) {
+      truncated += token
+      length++
+    } else if (length === available) {
+      truncated += ellipsis
+      length++
+    }
+  }
+
+  return truncated
+}
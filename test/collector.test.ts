@@ -0,0 +1,197 @@
+import { deepStrictEqual } from 'node:assert'
+import test from 'node:test'
+import {
+  type CollectorEvent,
+  type CollectorRunEvent,
+  type TestReport,
+  type TestReportData,
+  TestCollector,
+  getRunResults
+} from '../src/collector.ts'
+
+const file = '/root/test/a.test.js'
+
+function report(type: string, name: string, data: Partial<TestReportData> = {}): TestReport {
+  return {
+    type: `test:${type}`,
+    data: { name, nesting: 0, file, line: 1, column: 1, todo: false, skip: false, ...data }
+  }
+}
+
+test('TestCollector should build the results tree', async () => {
+  const collector = new TestCollector({ cwd: '/root' })
+  const failure = Object.assign(new Error('failed', { cause: new Error('fail') }), { failureType: 'testCodeFailure' })
+  const subtests = Object.assign(new Error('1 subtest failed'), { failureType: 'subtestsFailed' })
+
+  const reports = [
+    report('enqueue', file),
+    report('start', 'suite'),
+    report('start', 'first', { nesting: 1 }),
+    report('pass', 'first', { nesting: 1, details: { duration_ms: 1, type: 'test' } }),
+    report('diagnostic', '', { nesting: 1, message: 'note' }),
+    report('start', 'second', { nesting: 1 }),
+    report('fail', 'second', { nesting: 1, details: { duration_ms: 2, type: 'test', error: failure } }),
+    report('fail', 'suite', { details: { duration_ms: 3, type: 'suite', error: subtests } }),
+    report('start', 'skipped', { skip: 'later' }),
+    report('pass', 'skipped', { skip: 'later', details: { duration_ms: 0, type: 'test' } }),
+    report('summary', '', { file: 'test/a.test.js', success: false, duration_ms: 10 }),
+    report('diagnostic', '', { file: undefined, message: 'tests 3' }),
+    report('summary', '', { file: undefined, success: false, duration_ms: 20 })
+  ]
+
+  for (const item of reports) {
+    collector.write(item)
+  }
+
+  collector.end()
+
+  // The collector can be consumed as an async iterator
+  const events: (CollectorEvent | CollectorRunEvent)[] = []
+
+  for await (const event of collector) {
+    events.push(event)
+  }
+
+  deepStrictEqual(
+    events.map(event => event.type).join(' '),
+    'event event event test event event test test event test file event event run'
+  )
+
+  const { run } = events.at(-1) as CollectorRunEvent
+
+  deepStrictEqual(run.success, false)
+  deepStrictEqual(run.duration, 20)
+  deepStrictEqual(run.diagnostics, ['tests 3'])
+  deepStrictEqual(run.totals, {
+    tests: 3,
+    suites: 1,
+    passed: 1,
+    failed: 1,
+    cancelled: 0,
+    skipped: 1,
+    todo: 0,
+    files: 1
+  })
+
+  const [collected] = run.files
+
+  deepStrictEqual(collected.file, 'test/a.test.js')
+  deepStrictEqual([collected.completed, collected.success, collected.duration], [true, false, 10])
+  deepStrictEqual(
+    collected.tests.map(test => [test.name, test.status]),
+    [
+      ['suite', 'failed'],
+      ['skipped', 'skipped']
+    ]
+  )
+  deepStrictEqual(collected.tests[1].reason, 'later')
+
+  const [first, second] = collected.tests[0].children
+
+  deepStrictEqual(first.diagnostics, ['note'])
+  deepStrictEqual([second.fullName, second.ancestors, second.error?.message], ['suite > second', ['suite'], 'fail'])
+})
+
+test('TestCollector should complete files reported as tests and restart on each watch run', () => {
+  const collector = new TestCollector({ cwd: '/root' })
+
+  deepStrictEqual(collector.collect(report('pass', file, { details: { duration_ms: 5 } })).type, 'file')
+  deepStrictEqual(collector.collect(report('summary', '', { success: true })).type, 'event')
+  deepStrictEqual(collector.collect(report('pass', 'orphan', { file: undefined })).type, 'event')
+  deepStrictEqual(collector.collect(report('diagnostic', '', { message: 'file note' })).type, 'event')
+
+  const { files } = collector.run
+  deepStrictEqual([files[0].success, files[0].duration, files[0].diagnostics], [true, 5, ['file note']])
+
+  const drained = collector.collect(report('watch:drained', ''))
+
+  // Each watch run is completed when the test runner is drained
+  deepStrictEqual(drained.type === 'drained' && drained.run.files.map(({ file }) => file), ['test/a.test.js'])
+
+  collector.collect(report('enqueue', '/root/test/b.test.js', { file: '/root/test/b.test.js' }))
+
+  deepStrictEqual(
+    collector.run.files.map(({ file }) => file),
+    ['test/b.test.js']
+  )
+})
+
+test('TestCollector should prefer the counters of the test runner', () => {
+  const collector = new TestCollector({ cwd: '/root' })
+  const timeout = Object.assign(new Error('test timed out'), { failureType: 'testTimeoutFailure' })
+
+  collector.collect(report('start', 'slow'))
+  collector.collect(report('fail', 'slow', { details: { duration_ms: 1, type: 'test', error: timeout } }))
+  deepStrictEqual([collector.run.totals.failed, collector.run.totals.cancelled], [1, 0])
+
+  const counts = { tests: 1, suites: 0, passed: 0, failed: 0, cancelled: 1, skipped: 0, todo: 0, topLevel: 1 }
+  collector.collect(report('summary', '', { file: undefined, success: false, counts }))
+
+  deepStrictEqual(collector.run.totals, {
+    tests: 1,
+    suites: 0,
+    passed: 0,
+    failed: 0,
+    cancelled: 1,
+    skipped: 0,
+    todo: 0,
+    files: 1
+  })
+})
+
+test('getRunResults should list the tests in completion order', () => {
+  const collector = new TestCollector({ cwd: '/root' })
+
+  for (const item of [
+    report('start', 'parent'),
+    report('start', 'child', { nesting: 1 }),
+    report('pass', 'child', { nesting: 1 }),
+    report('diagnostic', '', { nesting: 1, message: 'note' }),
+    report('pass', 'parent'),
+    report('start', 'other'),
+    report('pass', 'other')
+  ]) {
+    collector.collect(item)
+  }
+
+  const results = getRunResults(collector.run)
+
+  deepStrictEqual(results.files, ['test/a.test.js'])
+  deepStrictEqual(
+    results.tests.map(test => test.fullName),
+    ['parent > child', 'parent', 'other']
+  )
+  deepStrictEqual(Object.hasOwn(results.tests[1], 'children') || Object.hasOwn(results.tests[0], 'diagnostics'), false)
+})
+
+test('getRunResults should report the files failing on their own as failed tests', () => {
+  const collector = new TestCollector({ cwd: '/root' })
+  const error = Object.assign(new Error('test failed'), { code: 'ERR_TEST_FAILURE', failureType: 'testCodeFailure' })
+
+  collector.collect(report('start', 'passing'))
+  collector.collect(report('pass', 'passing'))
+  collector.collect(report('fail', file, { line: 0, details: { duration_ms: 5, type: 'test', error } }))
+
+  const { files, totals } = collector.run
+  deepStrictEqual([files[0].success, files[0].error?.message], [false, 'test failed'])
+  deepStrictEqual([totals.tests, totals.passed, totals.failed], [2, 1, 1])
+
+  const results = getRunResults(collector.run)
+
+  deepStrictEqual(results.tests[1], {
+    type: 'test',
+    name: 'test/a.test.js',
+    fullName: 'test/a.test.js',
+    ancestors: [],
+    file: 'test/a.test.js',
+    nesting: 0,
+    status: 'failed',
+    duration: 5,
+    error: {
+      message: 'test failed',
+      stack: error.stack,
+      failureType: 'testCodeFailure',
+      code: 'ERR_TEST_FAILURE'
+    }
+  })
+})
@@ -0,0 +1,82 @@
+import { deepStrictEqual } from 'node:assert'
+import test from 'node:test'
+import {
+  type CoverageCounts,
+  type CoverageSummary,
+  formatCoverageTable,
+  getCoverageFailures,
+  getUncoveredRanges
+} from '../src/coverage.ts'
+
+const colors = { green: '<g>', red: '<r>', gray: '', bold: '', normal: '', reset: '</>' }
+const noColors = { green: '', red: '', gray: '', bold: '', normal: '', reset: '' }
+const thresholds = { lines: 80, branches: 80, functions: 80 }
+
+function counts(lines: number, branches: number, functions: number): CoverageCounts {
+  return {
+    totalLineCount: 100,
+    totalBranchCount: 100,
+    totalFunctionCount: 100,
+    coveredLineCount: lines,
+    coveredBranchCount: branches,
+    coveredFunctionCount: functions,
+    coveredLinePercent: lines,
+    coveredBranchPercent: branches,
+    coveredFunctionPercent: functions
+  }
+}
+
+const summary: CoverageSummary = {
+  workingDirectory: '/root',
+  files: [
+    {
+      path: '/root/src/covered.ts',
+      ...counts(100, 100, 100),
+      lines: [
+        { line: 1, count: 1 },
+        { line: 2, count: 3 }
+      ]
+    },
+    {
+      path: '/root/src/uncovered.ts',
+      ...counts(50, 75.5, 100),
+      lines: [
+        { line: 7, count: 0 },
+        { line: 1, count: 0 },
+        { line: 2, count: 0 },
+        { line: 3, count: 0 },
+        { line: 5, count: 1 },
+        { line: 9, count: 0 },
+        { line: 10, count: 0 }
+      ]
+    }
+  ],
+  totals: counts(75, 87.75, 100)
+}
+
+test('getUncoveredRanges should compress uncovered lines in ranges', () => {
+  deepStrictEqual(getUncoveredRanges(), '')
+  deepStrictEqual(getUncoveredRanges(summary.files[0].lines), '')
+  deepStrictEqual(getUncoveredRanges(summary.files[1].lines), '1-3, 7, 9-10')
+})
+
+test('getCoverageFailures should return the metrics below thresholds', () => {
+  deepStrictEqual(getCoverageFailures(summary.totals, thresholds), ['lines'])
+  deepStrictEqual(getCoverageFailures(summary.files[1], thresholds), ['lines', 'branches'])
+  deepStrictEqual(getCoverageFailures(summary.files[0], thresholds), [])
+})
+
+test('formatCoverageTable should render a table of the coverage', () => {
+  deepStrictEqual(formatCoverageTable(summary, { cwd: '/root', colors: noColors, thresholds, onlyBelow: false }), [
+    'File             | Lines   | Branches | Functions | Uncovered lines',
+    'src/covered.ts   | 100.00% | 100.00%  | 100.00%',
+    'src/uncovered.ts | 50.00%  | 75.50%   | 100.00%   | 1-3, 7, 9-10',
+    'All files        | 75.00%  | 87.75%   | 100.00%'
+  ])
+
+  deepStrictEqual(formatCoverageTable(summary, { cwd: '/root', colors, thresholds, onlyBelow: true }), [
+    'File             |</> Lines  |</> Branches |</> Functions |</> Uncovered lines',
+    'src/uncovered.ts |</> <r>50.00%</> |</> <r>75.50%  </> |</> <g>100.00%  </> |</> <r>1-3, 7, 9-10</>',
+    'All files        |</> <r>75.00%</> |</> <g>87.75%  </> |</> <g>100.00%</>'
+  ])
+})
@@ -0,0 +1,164 @@
+import { deepStrictEqual, notDeepStrictEqual, ok, throws } from 'node:assert'
+import test from 'node:test'
+import { diff, formatAssertionError, formatLinesDiff, formatWordsDiff, isAssertionError } from '../src/diff.ts'
+
+const colors = { green: '<g>', red: '<r>', gray: '<y>', inverse: '[', noInverse: ']', reset: '</>' }
+
+test('diff should compute the minimal edit script', () => {
+  deepStrictEqual(diff([], []), [])
+
+  deepStrictEqual(diff(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e']), [
+    { operation: 'equal', value: 'a' },
+    { operation: 'delete', value: 'b' },
+    { operation: 'insert', value: 'x' },
+    { operation: 'equal', value: 'c' },
+    { operation: 'equal', value: 'd' },
+    { operation: 'insert', value: 'e' }
+  ])
+
+  deepStrictEqual(diff(['a', 'b', 'c'], ['c', 'b', 'a']), [
+    { operation: 'delete', value: 'a' },
+    { operation: 'delete', value: 'b' },
+    { operation: 'equal', value: 'c' },
+    { operation: 'insert', value: 'b' },
+    { operation: 'insert', value: 'a' }
+  ])
+})
+
+test('diff should fallback to a full replacement for very different inputs', () => {
+  const expected = Array.from({ length: 600 }, (_, i) => `expected ${i}`)
+  const actual = Array.from({ length: 600 }, (_, i) => `actual ${i}`)
+  const result = diff(expected, actual)
+
+  deepStrictEqual(result.length, 1200)
+  ok(result.slice(0, 600).every(entry => entry.operation === 'delete'))
+  ok(result.slice(600).every(entry => entry.operation === 'insert'))
+})
+
+test('formatWordsDiff should highlight changed words', () => {
+  deepStrictEqual(formatWordsDiff('the red fox', 'the brown fox', colors), [
+    '<r>- the [red] fox</>',
+    '<g>+ the [brown] fox</>'
+  ])
+})
+
+test('formatLinesDiff should collapse long unchanged runs', () => {
+  const expected = Array.from({ length: 20 }, (_, i) => `line ${i}`)
+  const actual = expected.map(line => (line === 'line 10' ? 'changed' : line))
+
+  deepStrictEqual(formatLinesDiff(expected.join('\n'), actual.join('\n'), colors, 1), [
+    '<y>... 9 unchanged lines</>',
+    '  line 9',
+    '<r>- line 10</>',
+    '<g>+ changed</>',
+    '  line 11',
+    '<y>... 8 unchanged lines</>'
+  ])
+
+  deepStrictEqual(formatLinesDiff('a\nb\nc', 'a\nb\nd', colors, 0), [
+    '<y>... 2 unchanged lines</>',
+    '<r>- c</>',
+    '<g>+ d</>'
+  ])
+
+  deepStrictEqual(formatLinesDiff('a\nb\nc', 'x\nb\nc', colors, 1), [
+    '<r>- a</>',
+    '<g>+ x</>',
+    '  b',
+    '<y>... 1 unchanged line</>'
+  ])
+})
+
+test('formatLinesDiff should truncate very long diffs', () => {
+  const expected = Array.from({ length: 20000 }, (_, i) => `expected ${i}`).join('\n')
+  const actual = Array.from({ length: 20000 }, (_, i) => `actual ${i}`).join('\n')
+  const lines = formatLinesDiff(expected, actual, colors, 3)
+
+  deepStrictEqual(lines.length, 201)
+  deepStrictEqual(lines.at(-1), '<y>... 39800 more lines</>')
+  deepStrictEqual(formatLinesDiff(expected, actual, colors, 3, 'it').at(-1), '<y>... altre 39800 righe</>')
+})
+
+test('formatLinesDiff and formatAssertionError should use the locale', () => {
+  deepStrictEqual(formatLinesDiff('a\nb\nc', 'x\nb\nc', colors, 0, 'it'), [
+    '<r>- a</>',
+    '<g>+ x</>',
+    '<y>... 2 righe invariate</>'
+  ])
+
+  const error = Object.assign(new Error('Expected values to be strictly equal:'), {
+    name: 'AssertionError',
+    actual: 1,
+    expected: 2,
+    operator: 'strictEqual'
+  })
+  error.stack = undefined
+
+  deepStrictEqual(formatAssertionError(error, colors, 3, 'it').split('\n').slice(0, 3), [
+    'AssertionError: Expected values to be strictly equal:',
+    '',
+    '<g>+ effettivo</> <r>- atteso</>'
+  ])
+})
+
+test('isAssertionError should detect assertion errors', () => {
+  ok(!isAssertionError('error'))
+  ok(!isAssertionError(new Error('error')))
+  ok(isAssertionError(Object.assign(new Error('error'), { actual: 1, expected: 2, operator: 'strictEqual' })))
+  ok(!isAssertionError(Object.assign(new Error('error'), { actual: 1, expected: 2, operator: '===' })))
+})
+
+test('isAssertionError should only accept the operators comparing two values', () => {
+  throws(
+    () => notDeepStrictEqual({ a: 1 }, { a: 1 }),
+    error => !isAssertionError(error)
+  )
+  throws(
+    () => ok(false),
+    error => !isAssertionError(error)
+  )
+  throws(
+    () => deepStrictEqual({ a: 1 }, { a: 2 }),
+    error => isAssertionError(error)
+  )
+})
+
+test('formatAssertionError should render the error with a diff', () => {
+  const error = Object.assign(new Error('Values are different:\nsomething else'), {
+    name: 'AssertionError',
+    actual: { a: 1 },
+    expected: { a: 2 },
+    operator: 'deepStrictEqual'
+  })
+  error.stack = 'AssertionError: Values are different\n    at foo (bar.js:1:1)'
+
+  deepStrictEqual(
+    formatAssertionError(error, colors, 3),
+    [
+      'AssertionError: Values are different:',
+      '',
+      '<g>+ actual</> <r>- expected</>',
+      '',
+      '  {',
+      '<r>-   a: 2</>',
+      '<g>+   a: 1</>',
+      '  }',
+      '',
+      '    at foo (bar.js:1:1)'
+    ].join('\n')
+  )
+
+  error.stack = undefined
+  deepStrictEqual(
+    formatAssertionError(Object.assign(error, { code: 'ERR_ASSERTION', actual: 'a\nb', expected: 'a\nc' }), colors, 3),
+    [
+      'AssertionError [ERR_ASSERTION]: Values are different:',
+      '',
+      '<g>+ actual</> <r>- expected</>',
+      '',
+      '  a',
+      '<r>- c</>',
+      '<g>+ b</>'
+    ].join('\n')
+  )
+})
@@ -0,0 +1,122 @@
+import { deepStrictEqual, doesNotMatch, match } from 'node:assert'
+import test from 'node:test'
+import { type ErrorFormatOptions, formatError, getErrorHeader, getErrorProperties } from '../src/errors.ts'
+
+const options: ErrorFormatOptions = {
+  locale: 'en',
+  colors: { green: '', red: '', gray: '', reset: '' },
+  diffContext: 3,
+  depth: 10
+}
+
+function withStack(error: Error, ...frames: string[]): Error {
+  error.stack = [getErrorHeader(error), ...frames.map(frame => `    at ${frame}`)].join('\n')
+  return error
+}
+
+test('getErrorHeader and getErrorProperties should describe an error', () => {
+  const error = Object.assign(new TypeError('invalid'), { code: 'ERR_INVALID', details: { path: '/tmp' } })
+
+  deepStrictEqual(getErrorHeader(error), 'TypeError: invalid')
+  deepStrictEqual(getErrorHeader(new Error('')), 'Error')
+  deepStrictEqual(getErrorProperties(error), [
+    ['code', "'ERR_INVALID'"],
+    ['details', "{ path: '/tmp' }"]
+  ])
+})
+
+test('formatError should render cause chains and aggregated errors', () => {
+  const inner = withStack(Object.assign(new Error('inner'), { errno: -2 }), 'inner (/root/a.js:1:1)')
+  const outer = withStack(new Error('outer', { cause: inner }), 'outer (/root/a.js:2:1)')
+  const aggregate = withStack(
+    new AggregateError([outer, withStack(new RangeError('range'), 'range (/root/a.js:3:1)')], 'multiple'),
+    'aggregate (/root/a.js:4:1)'
+  )
+
+  deepStrictEqual(
+    formatError(aggregate, options),
+    [
+      'AggregateError: multiple',
+      '    at aggregate (/root/a.js:4:1)',
+      '  [1] Error: outer',
+      '        at outer (/root/a.js:2:1)',
+      '      Caused by: Error: inner',
+      '            at inner (/root/a.js:1:1)',
+      '          errno: -2',
+      '  [2] RangeError: range',
+      '        at range (/root/a.js:3:1)'
+    ].join('\n')
+  )
+
+  // Nested errors are not rendered beyond the depth
+  deepStrictEqual(
+    formatError(aggregate, { ...options, depth: 0 }),
+    'AggregateError: multiple\n    at aggregate (/root/a.js:4:1)'
+  )
+})
+
+test('formatError should protect against cycles and render non-Error values', () => {
+  const first = withStack(new Error('first'))
+  const second = withStack(new Error('second', { cause: first }))
+  first.cause = second
+
+  deepStrictEqual(
+    formatError(first, options),
+    'Error: first\n  Caused by: Error: second\n      Caused by: [Circular] Error: first'
+  )
+
+  // The same error in different branches is not a cycle
+  const shared = withStack(new Error('shared'))
+  deepStrictEqual(
+    formatError(withStack(new AggregateError([shared, shared], 'twice')), options),
+    'AggregateError: twice\n  [1] Error: shared\n  [2] Error: shared'
+  )
+
+  deepStrictEqual(formatError('thrown\nstring', options), 'thrown\nstring')
+  deepStrictEqual(formatError(42, options), '42')
+  deepStrictEqual(formatError({ reason: 'plain' }, options), "{ reason: 'plain' }")
+  deepStrictEqual(
+    formatError(withStack(new Error('wrapped', { cause: null })), { ...options, locale: 'it' }),
+    'Error: wrapped\n  Causato da: null'
+  )
+  match(
+    formatError(Object.assign(new Error('assertion'), { actual: 1, expected: 2, operator: 'strictEqual' }), options),
+    /\+ actual - expected/
+  )
+})
+
+test('formatError should keep the whole message of assertions which are not comparisons', () => {
+  const error = Object.assign(new Error('Expected "actual" not to be strictly deep-equal to:\n\n{\n  a: 1\n}'), {
+    name: 'AssertionError',
+    actual: { a: 1 },
+    expected: { a: 1 },
+    operator: 'notDeepStrictEqual'
+  })
+
+  deepStrictEqual(
+    formatError(withStack(error), options),
+    [
+      'AssertionError: Expected "actual" not to be strictly deep-equal to:',
+      '',
+      '{',
+      '  a: 1',
+      '}',
+      '  actual: { a: 1 }',
+      '  expected: { a: 1 }',
+      "  operator: 'notDeepStrictEqual'"
+    ].join('\n')
+  )
+
+  const falsy = Object.assign(new Error('The expression evaluated to a falsy value:\n\n  ok(false)\n'), {
+    name: 'AssertionError',
+    actual: false,
+    expected: true,
+    operator: '=='
+  })
+
+  match(
+    formatError(withStack(falsy), options),
+    /^AssertionError: The expression evaluated to a falsy value:\n\n {2}ok\(false\)\n/
+  )
+  doesNotMatch(formatError(withStack(falsy), options), /\+ actual - expected/)
+})
@@ -0,0 +1,33 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { test } from 'node:test'
+
+function createObject(changed) {
+  const object = {}
+
+  for (let i = 0; i < 20; i++) {
+    object[`key${i}`] = { value: i, enabled: i % 2 === 0 }
+  }
+
+  if (changed) {
+    object.key10.value = 100
+    object.key11.label = 'added'
+  }
+
+  return object
+}
+
+test('objects', () => {
+  deepStrictEqual(createObject(true), createObject(false))
+})
+
+test('single line strings', () => {
+  strictEqual('the quick brown fox jumps over the lazy dog', 'the quick red fox jumped over the lazy dog')
+})
+
+test('multi line strings', () => {
+  strictEqual('first\nsecond\nthird\nfourth', 'first\n2nd\nthird\nfourth')
+})
+
+test('custom message', () => {
+  strictEqual(1, 2, 'numbers should match')
+})
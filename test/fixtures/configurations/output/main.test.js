@@ -0,0 +1,18 @@
+import { test } from 'node:test'
+
+test('first', () => {
+  console.log('first output')
+})
+
+test('second', () => {
+  console.log('second output')
+  throw new Error('fail')
+})
+
+test('parent', async t => {
+  console.error('parent output')
+
+  await t.test('child', () => {
+    console.log('child output')
+  })
+})
@@ -0,0 +1,5 @@
+import { test } from 'node:test'
+
+test('passing', () => {
+  console.log('passing output')
+})
@@ -8,8 +8,10 @@ const node = platform === 'windows' ? 'node' : process.argv[0]
 const specs: Record<string, boolean> = {
   '1pass': false,
   'all-skipped': true,
+  assertions: true,
   combined: false,
-  'no-files': false
+  'no-files': false,
+  output: false
 }
 
 for (const spec of Object.keys(specs)) {
@@ -17,7 +19,11 @@ for (const spec of Object.keys(specs)) {
   let expected
 
   const color = specs[spec]
-  const env = color ? { FORCE_COLOR: 'true' } : { NO_COLOR: 'true' }
+  // Source excerpts cannot be reproduced when replaying the raw events, as paths and positions are sanitized
+  const env = {
+    ...(color ? { FORCE_COLOR: 'true' } : { NO_COLOR: 'true' }),
+    CLEANER_SPEC_REPORTER_SOURCE_EXCERPT: 'false'
+  }
 
   try {
     raw = execSync(
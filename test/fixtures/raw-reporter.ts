@@ -7,7 +7,7 @@ export class TestReporter extends Transform {
     super({ writableObjectMode: true })
   }
 
-  _transform(raw: { data?: TestReportData }, _encoding: string, callback: Callback<string>): void {
+  _transform(raw: { type: string; data?: TestReportData }, _encoding: string, callback: Callback<string>): void {
     if (raw.data) {
       if (raw.data.message?.startsWith('duration_ms ')) {
         raw.data.message = 'duration_ms 1000'
@@ -17,7 +17,8 @@ export class TestReporter extends Transform {
         raw.data.file = raw.data.file.replace(process.cwd(), '/cleaner-spec-reporter')
       }
 
-      raw.data.duration_ms = 1
+      // As for its diagnostic, the duration of the whole run is always one second
+      raw.data.duration_ms = raw.type === 'test:summary' && !raw.data.file ? 1000 : 1
       raw.data.line = 0
       raw.data.column = 0
 
@@ -46,6 +47,12 @@ export class TestReporter extends Transform {
 
     serialized.message = error.message ?? error.cause
 
+    // Assertion errors, used to render diffs
+    if ('actual' in error && 'expected' in error) {
+      const { name, actual, expected, operator } = error as TestError & Record<string, unknown>
+      Object.assign(serialized, { name, actual, expected, operator })
+    }
+
     if (error.cause && typeof error.cause !== 'string') {
       serialized.cause = this.serializeError(error.cause as TestError)
     }
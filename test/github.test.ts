@@ -0,0 +1,97 @@
+import { deepStrictEqual } from 'node:assert'
+import test from 'node:test'
+import {
+  escapeAnnotationData,
+  escapeAnnotationProperty,
+  formatAnnotation,
+  formatGitHubAnnotations
+} from '../src/github.ts'
+import { result } from './helpers.ts'
+
+test('escapeAnnotationData and escapeAnnotationProperty should escape workflow commands', () => {
+  deepStrictEqual(escapeAnnotationData('100% done\r\nnext: a,b'), '100%25 done%0D%0Anext: a,b')
+  deepStrictEqual(escapeAnnotationProperty('100% done\r\nnext: a,b'), '100%25 done%0D%0Anext%3A a%2Cb')
+})
+
+test('formatAnnotation should format a workflow command', () => {
+  deepStrictEqual(formatAnnotation('notice', 'message'), '::notice::message')
+  deepStrictEqual(
+    formatAnnotation('error', 'multi\nline', { file: 'a.js', line: 1, col: undefined, title: 'a, b' }),
+    '::error file=a.js,line=1,title=a%2C b::multi%0Aline'
+  )
+})
+
+test('formatGitHubAnnotations should annotate failures, slow and TODO tests', () => {
+  const tests = [
+    result('pass'),
+    result('slow', { duration: 1500 }),
+    result('todo', { status: 'todo' }),
+    result('todo with reason', { status: 'todo', reason: 'later' }),
+    result('fail', {
+      status: 'failed',
+      error: {
+        message: 'Expected values\nto be equal',
+        stack: [
+          'AssertionError: Expected values',
+          '    at helper (/root/test/helper.js:1:1)',
+          '    at TestContext.<anonymous> (file:///root/test/a.test.js:10:7)'
+        ].join('\n'),
+        failureType: 'testCodeFailure'
+      }
+    }),
+    result('timeout', {
+      status: 'failed',
+      error: {
+        message: 'test timed out after 100ms',
+        failureType: 'testTimeoutFailure',
+        description: 'Test timed out after 100ms.'
+      }
+    }),
+    result('cancelled', { status: 'cancelled' }),
+    result('suite', { status: 'failed', error: { message: '1 subtest failed', failureType: 'subtestsFailed' } })
+  ]
+
+  deepStrictEqual(
+    formatGitHubAnnotations(tests, {
+      cwd: '/root',
+      types: ['failures', 'slow', 'todo'],
+      slowThreshold: 1000,
+      locale: 'en'
+    }),
+    [
+      '::warning file=test/a.test.js,line=1,col=1,title=slow::Test took 1.500 seconds.',
+      '::notice file=test/a.test.js,line=1,col=1,title=todo::Test marked as TODO.',
+      '::notice file=test/a.test.js,line=1,col=1,title=todo with reason::later',
+      '::error file=test/a.test.js,line=10,col=7,title=fail::Expected values%0Ato be equal',
+      '::error file=test/a.test.js,line=1,col=1,title=timeout::Test timed out after 100ms.',
+      '::error file=test/a.test.js,line=1,col=1,title=cancelled::Test failed.'
+    ]
+  )
+
+  deepStrictEqual(formatGitHubAnnotations(tests, { cwd: '/root', types: ['slow'], slowThreshold: 0, locale: 'en' }), [])
+  deepStrictEqual(
+    formatGitHubAnnotations([result('slow', { duration: 1500 })], {
+      cwd: '/root',
+      types: ['slow'],
+      slowThreshold: 1000,
+      locale: 'it'
+    }),
+    ['::warning file=test/a.test.js,line=1,col=1,title=slow::Il test ha impiegato 1,500 secondi.']
+  )
+})
+
+test('formatGitHubAnnotations should annotate the files failing on their own', () => {
+  const failedFile = result('test/b.test.js', {
+    fullName: 'test/b.test.js',
+    file: 'test/b.test.js',
+    line: undefined,
+    column: undefined,
+    status: 'failed',
+    error: { message: 'test failed', stack: 'Error [ERR_TEST_FAILURE]: test failed', failureType: 'testCodeFailure' }
+  })
+
+  deepStrictEqual(
+    formatGitHubAnnotations([failedFile], { cwd: '/root', types: ['failures'], slowThreshold: 0, locale: 'en' }),
+    ['::error file=test/b.test.js,title=test/b.test.js::test failed']
+  )
+})
@@ -0,0 +1,28 @@
+import { type TestResult, type TestRunResults } from '../src/results.ts'
+
+export function result(name: string, overrides: Partial<TestResult> = {}): TestResult {
+  return {
+    type: 'test',
+    name,
+    fullName: name,
+    ancestors: [],
+    file: 'test/a.test.js',
+    line: 1,
+    column: 1,
+    nesting: 0,
+    status: 'passed',
+    duration: 2,
+    ...overrides
+  }
+}
+
+export function runResults(tests: TestResult[], overrides: Partial<TestRunResults> = {}): TestRunResults {
+  return {
+    success: true,
+    duration: 12,
+    totals: { tests: 0, suites: 0, passed: 0, failed: 0, cancelled: 0, skipped: 0, todo: 0, files: 1 },
+    files: ['test/a.test.js'],
+    tests,
+    ...overrides
+  }
+}
@@ -0,0 +1,113 @@
+import { deepStrictEqual } from 'node:assert'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import test from 'node:test'
+import {
+  type RunHistory,
+  analyzeHistory,
+  appendHistoryRun,
+  createHistoryRun,
+  readHistory,
+  writeHistory
+} from '../src/history.ts'
+import { type TestResult } from '../src/results.ts'
+import { result } from './helpers.ts'
+
+function history(...runs: TestResult[][]): RunHistory {
+  return runs.reduce<RunHistory>((current, tests) => appendHistoryRun(current, createHistoryRun(tests), 10), {
+    runs: []
+  })
+}
+
+test('createHistoryRun should only keep the relevant information of the tests', () => {
+  const parent = result('parent', {
+    status: 'failed',
+    error: { message: '1 subtest failed', failureType: 'subtestsFailed' }
+  })
+
+  deepStrictEqual(createHistoryRun([result('first'), parent], new Date(0)), {
+    date: '1970-01-01T00:00:00.000Z',
+    tests: [{ file: 'test/a.test.js', name: 'first', status: 'passed', duration: 2 }]
+  })
+})
+
+test('appendHistoryRun should only keep the most recent runs', () => {
+  const runs = [1, 2, 3].map(i => createHistoryRun([result('first', { duration: i })]))
+  const appended = runs.reduce<RunHistory>((current, run) => appendHistoryRun(current, run, 2), { runs: [] })
+
+  deepStrictEqual(
+    appended.runs.map(run => run.tests[0].duration),
+    [2, 3]
+  )
+})
+
+test('analyzeHistory should detect newly failing and newly fixed tests', () => {
+  const analysis = analyzeHistory(
+    history([result('breaking'), result('fixed', { status: 'failed' }), result('stable', { status: 'failed' })]),
+    [
+      result('breaking', { status: 'failed' }),
+      result('fixed'),
+      result('stable', { status: 'failed' }),
+      result('new', { status: 'failed' })
+    ]
+  )
+
+  deepStrictEqual(
+    analysis.newlyFailing.map(test => test.name),
+    ['breaking']
+  )
+  deepStrictEqual(
+    analysis.newlyFixed.map(test => test.name),
+    ['fixed']
+  )
+  deepStrictEqual(analysis.flaky, [])
+})
+
+test('analyzeHistory should detect flaky tests ignoring skipped tests', () => {
+  const previous = history(
+    [result('flaky'), result('skipped')],
+    [result('flaky', { status: 'failed' }), result('skipped', { status: 'skipped' })],
+    [result('flaky', { status: 'skipped' }), result('skipped', { status: 'failed' })],
+    [result('flaky'), result('skipped')]
+  )
+  const analysis = analyzeHistory(previous, [result('flaky', { status: 'failed' }), result('skipped')])
+
+  deepStrictEqual(
+    analysis.flaky.map(({ test, changes, runs }) => [test.name, changes, runs]),
+    [['flaky', 3, 4]]
+  )
+  deepStrictEqual(analysis.newlyFailing, [])
+  deepStrictEqual(analysis.newlyFixed, [])
+})
+
+test('analyzeHistory should detect significant duration regressions', () => {
+  const previous = history(
+    [result('slower', { duration: 100 }), result('noise', { duration: 10 })],
+    [result('slower', { duration: 200 }), result('noise', { duration: 20 })]
+  )
+  const analysis = analyzeHistory(previous, [result('slower', { duration: 300 }), result('noise', { duration: 40 })])
+
+  deepStrictEqual(
+    analysis.regressions.map(({ test, average }) => [test.name, average]),
+    [['slower', 150]]
+  )
+})
+
+test('readHistory and writeHistory should handle the history file', async () => {
+  const root = await mkdtemp(resolve(tmpdir(), 'cleaner-spec-reporter-'))
+  const path = resolve(root, 'cache/history.json')
+
+  try {
+    deepStrictEqual(readHistory(path), { runs: [] })
+
+    const written = history([result('first')])
+    await writeHistory(path, written)
+    deepStrictEqual(readHistory(path), written)
+
+    await writeFile(path, '{"runs":', 'utf-8')
+    deepStrictEqual(readHistory(path), { runs: [] })
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
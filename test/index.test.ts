@@ -1,10 +1,23 @@
-import { deepEqual, deepStrictEqual, match } from 'node:assert'
+import { deepEqual, deepStrictEqual, doesNotMatch, match, ok, rejects } from 'node:assert'
+import { once } from 'node:events'
 import { createReadStream } from 'node:fs'
-import { readFile } from 'node:fs/promises'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
 import { resolve } from 'node:path'
 import test from 'node:test'
 import split2 from 'split2'
-import { TestReporter, formatDuration, niceJoin } from '../src/index.ts'
+import {
+  type TestReport,
+  type TestReportData,
+  type TestReporterOptions,
+  type TestRunResults,
+  TestReporter,
+  formatDuration,
+  niceJoin,
+  truncateLine,
+  visibleLength,
+  wrapLine
+} from '../src/index.ts'
 
 const platform = process.platform === 'win32' ? 'windows' : 'unix'
 
@@ -35,14 +48,14 @@ async function loadExpectedOutput(name: string): Promise<string> {
     .replaceAll(/\d+\.\d+ seconds/g, '1 second')
 }
 
-async function run(name: string, color: boolean = false): Promise<string> {
+async function run(name: string, color: boolean = false, options: TestReporterOptions = {}): Promise<string> {
   const originalNoColor = process.env.NO_COLOR
   const originalForceColor = process.env.FORCE_COLOR
 
   process.env.NO_COLOR = !color ? 'true' : 'false'
   process.env.FORCE_COLOR = color ? 'true' : 'false'
 
-  const reporter = new TestReporter()
+  const reporter = new TestReporter({ githubAnnotations: [], ...options })
 
   process.env.NO_COLOR = originalNoColor
   process.env.FORCE_COLOR = originalForceColor
@@ -69,6 +82,60 @@ async function run(name: string, color: boolean = false): Promise<string> {
   return Buffer.concat(chunks).toString()
 }
 
+async function loadEvents(name: string): Promise<TestReport[]> {
+  const raw = await readFile(
+    resolve(import.meta.dirname, `./fixtures/configurations/${name}/raw-${platform}.txt`),
+    'utf-8'
+  )
+
+  return raw
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      const parsed = JSON.parse(line)
+
+      if (parsed.data?.details?.error) {
+        parsed.data.details.error = parseError(parsed.data.details.error)
+      }
+
+      return parsed
+    })
+}
+
+async function runEvents(events: TestReport[], options: TestReporterOptions = {}): Promise<string> {
+  const reporter = new TestReporter({ color: 'never', githubAnnotations: [], ...options })
+  const chunks: Buffer[] = []
+
+  reporter.on('data', chunk => chunks.push(chunk))
+
+  for (const event of events) {
+    reporter.write(event)
+  }
+
+  reporter.end()
+  await once(reporter, 'end')
+
+  return Buffer.concat(chunks).toString()
+}
+
+function testEvents(
+  file: string,
+  events: [type: 'start' | 'pass' | 'fail', name: string, nesting?: number, duration?: number][]
+): TestReport[] {
+  const reports: TestReport[] = [
+    { type: 'test:enqueue', data: { name: file, nesting: 0, file, todo: false, skip: false } }
+  ]
+
+  for (const [type, name, nesting = 0, duration = 0] of events) {
+    reports.push({
+      type: `test:${type}`,
+      data: { name, nesting, file, line: 1, todo: false, skip: false, details: { duration_ms: duration } }
+    })
+  }
+
+  return reports
+}
+
 process.env.TEST_ROOT = '/cleaner-spec-reporter'
 
 test('formatDuration function should handle different time units correctly', () => {
@@ -99,6 +166,42 @@ test('niceJoin function should join arrays correctly', () => {
   deepStrictEqual(niceJoin(['one', 'two', 'three'], ' or ', '; '), 'one; two or three')
 })
 
+test('wrapLine function should wrap lines ignoring escape sequences', () => {
+  const words = 'lorem ipsum dolor sit amet consectetur'
+
+  // Short lines, disabled wrapping and too narrow widths
+  deepStrictEqual(wrapLine('| short', 30, '| '), ['| short'])
+  deepStrictEqual(wrapLine(`| ${words}`, 0, '| '), [`| ${words}`])
+  deepStrictEqual(wrapLine(`| | | ${words}`, 24, '| | | '), [`| | | ${words}`])
+
+  // Lines are broken at spaces, or anywhere when there are none
+  deepStrictEqual(wrapLine(`| ${words}`, 24, '| '), ['| lorem ipsum dolor sit', '| amet consectetur'])
+  deepStrictEqual(wrapLine(`| ${'x'.repeat(30)}`, 22, '| '), [`| ${'x'.repeat(20)}`, `| ${'x'.repeat(10)}`])
+
+  // Styles are restored on the wrapped lines and do not count toward the width
+  const styled = wrapLine(
+    '\u001b[90m|\u001b[0m \u001b[31mlorem ipsum\u001b[0m dolor \u001b[1msit amet consectetur',
+    24,
+    '\u001b[90m|\u001b[0m '
+  )
+  deepStrictEqual(styled, [
+    '\u001b[90m|\u001b[0m \u001b[31mlorem ipsum\u001b[0m dolor \u001b[1msit\u001b[0m',
+    '\u001b[90m|\u001b[0m \u001b[1mamet consectetur'
+  ])
+  deepStrictEqual(styled.map(visibleLength), [23, 18])
+})
+
+test('truncateLine function should truncate lines ignoring escape sequences', () => {
+  deepStrictEqual(truncateLine('lorem ipsum', 11), 'lorem ipsum')
+  deepStrictEqual(truncateLine('lorem ipsum', 8), 'lorem...')
+
+  // Escape sequences are all kept, so that the styles are reset
+  deepStrictEqual(
+    truncateLine('\u001b[31mlorem\u001b[0m \u001b[1mipsum\u001b[0m', 8),
+    '\u001b[31mlorem\u001b[0m...\u001b[1m\u001b[0m'
+  )
+})
+
 test('should show correct output - combined', async () => {
   const actual = await run('combined')
   const expected = await loadExpectedOutput('combined')
@@ -127,3 +230,906 @@ test('should show correct output - 1pass', async () => {
 
   deepEqual(actual, expected)
 })
+
+test('should only show the requested sections', async () => {
+  const actual = await run('combined', false, { sections: ['summary'] })
+
+  match(actual, /Execution FAILED/)
+  doesNotMatch(actual, /first\.test\.js\n/)
+  doesNotMatch(actual, /Failed tests:/)
+  doesNotMatch(actual, /Files with failures:/)
+
+  const failures = await run('combined', false, { sections: ['files'] })
+
+  doesNotMatch(failures, /Execution FAILED/)
+  doesNotMatch(failures, /Failed tests:/)
+  match(failures, /Files with failures:\n {2}\n {2}- test\/fixtures\/configurations\/combined\/first\.test\.js/)
+
+  deepStrictEqual(await run('no-files', false, { sections: ['tests'] }), '')
+})
+
+test('should hide diagnostics when requested', async () => {
+  match(await run('combined'), /todoAA 1/)
+  doesNotMatch(await run('combined', false, { sections: ['tests', 'summary'] }), /todoAA 1/)
+  doesNotMatch(await run('combined', false, { verbosity: 'quiet' }), /todoAA 1/)
+})
+
+test('should honor the indentation and symbols options', async () => {
+  const actual = await run('1pass', true, { indentation: 4, symbols: { pass: 'OK ', verticalBar: '|' } })
+
+  ok(actual.includes('|   \u001b[0m\u001b[32mOK pass'))
+})
+
+test('should wrap the lines longer than the configured width', async () => {
+  const output = await run('combined', false, { width: 40, sourceExcerpt: false })
+  const tests = output.slice(0, output.indexOf('▶ Execution'))
+
+  deepStrictEqual(
+    tests.split('\n').filter(line => visibleLength(line) > 40),
+    []
+  )
+  ok(tests.includes('\n      ✖ subtest 4.1 - Test timed out\n      after 100ms. (1ms)\n'))
+})
+
+test('should honor the theme and colors options', async () => {
+  const ascii = await run('1pass', false, { theme: 'ascii' })
+  ok(ascii.startsWith('> test/fixtures/configurations/1pass/main.test.js\n'))
+  ok(ascii.includes('\n  v pass (1ms)\n'))
+
+  const colorblind = await run('1pass', true, { theme: 'colorblind', colors: { gray: 'white' } })
+  ok(colorblind.includes('\u001b[36m\u2714 pass \u001b[37m(1ms)'))
+})
+
+test('should show correct output - assertions', async () => {
+  const actual = await run('assertions', true)
+  const expected = await loadExpectedOutput('assertions')
+
+  deepEqual(actual, expected)
+})
+
+test('should show the slowest tests and files', async () => {
+  const events = [
+    ...testEvents('/cleaner-spec-reporter/first.test.js', [
+      ['start', 'fast'],
+      ['pass', 'fast', 0, 10],
+      ['start', 'slow'],
+      ['pass', 'slow', 0, 300],
+      ['start', 'parent'],
+      ['start', 'child', 1],
+      ['pass', 'child', 1, 450],
+      ['pass', 'parent', 0, 500]
+    ]),
+    ...testEvents('/cleaner-spec-reporter/second.test.js', [
+      ['start', 'medium'],
+      ['pass', 'medium', 0, 150],
+      ['start', 'skipped'],
+      ['pass', 'skipped', 0, 1000]
+    ])
+  ]
+
+  // Skipped and TODO tests are not considered
+  events.at(-1)!.data.skip = true
+
+  // Diagnostics must not affect the collected timings
+  events.splice(4, 0, {
+    type: 'test:diagnostic',
+    data: { name: 'slow', nesting: 0, message: 'diagnostic', todo: false, skip: false }
+  })
+
+  const actual = await runEvents(events, { slowestCount: 2, slowThreshold: 200 })
+
+  match(
+    actual,
+    /Slowest tests:\n {2}\n {2}- parent ▶ child \(first\.test\.js:1\) \(450ms\)\n {2}- slow \(first\.test\.js:1\) \(300ms\)\n\n/
+  )
+  match(actual, /Slowest files:\n {2}\n {2}- first\.test\.js \(810ms\)\n {2}- second\.test\.js \(150ms\)\n/)
+
+  const colored = await runEvents(events, { color: 'always', slowThreshold: 200 })
+  ok(colored.includes('fast \u001b[90m(10ms)'))
+  ok(colored.includes('slow \u001b[33m(300ms)'))
+  ok(colored.includes('child \u001b[31m(450ms)'))
+
+  doesNotMatch(await runEvents(events), /Slowest tests:/)
+  doesNotMatch(await runEvents(events, { slowestCount: 2, sections: ['summary'] }), /Slowest tests:/)
+})
+
+test('should show the coverage report', async () => {
+  const file = '/cleaner-spec-reporter/src/index.ts'
+  const totals = {
+    totalLineCount: 10,
+    totalBranchCount: 4,
+    totalFunctionCount: 2,
+    coveredLineCount: 7,
+    coveredBranchCount: 4,
+    coveredFunctionCount: 2,
+    coveredLinePercent: 70,
+    coveredBranchPercent: 100,
+    coveredFunctionPercent: 100
+  }
+
+  const events: TestReport[] = [
+    ...testEvents('/cleaner-spec-reporter/first.test.js', [
+      ['start', 'pass'],
+      ['pass', 'pass', 0, 1]
+    ]),
+    {
+      type: 'test:coverage',
+      data: {
+        name: '',
+        nesting: 0,
+        todo: false,
+        skip: false,
+        summary: { files: [{ path: file, ...totals, lines: [{ line: 3, count: 0 }] }], totals }
+      }
+    },
+    { type: 'test:summary', data: { name: '', nesting: 0, success: true, todo: false, skip: false } }
+  ]
+
+  const actual = await runEvents(events)
+  match(actual, /Execution PASSED/)
+  match(
+    actual,
+    /ℹ Coverage report:\n {2}\n {2}File {9}\| Lines {2}\| Branches \| Functions \| Uncovered lines\n {2}src\/index\.ts \| 70\.00% \| 100\.00% {2}\| 100\.00% {3}\| 3\n {2}All files {4}\| 70\.00% \| 100\.00% {2}\| 100\.00%\n/
+  )
+  doesNotMatch(actual, /below the minimum/)
+
+  doesNotMatch(await runEvents(events, { sections: ['summary'] }), /Coverage report/)
+
+  const originalExitCode = process.exitCode
+
+  try {
+    const failed = await runEvents(events, { coverageEnforce: true, coverageThresholds: { lines: 75 } })
+
+    match(failed, /Execution FAILED/)
+    match(failed, /✖ Coverage is below the minimum thresholds for lines \(70\.00% < 75%\)\./)
+    deepStrictEqual(process.exitCode, 1)
+  } finally {
+    process.exitCode = originalExitCode
+  }
+
+  const passed = await runEvents(events, { coverageEnforce: true, coverageThresholds: { lines: 70 } })
+  match(passed, /Execution PASSED/)
+})
+
+test('should write the JSON results file', async () => {
+  const root = await mkdtemp(resolve(tmpdir(), 'cleaner-spec-reporter-'))
+  const jsonOutput = resolve(root, 'reports/results.json')
+
+  try {
+    const output = await run('combined', false, { jsonOutput })
+
+    deepStrictEqual(output, await loadExpectedOutput('combined'))
+
+    const results: TestRunResults = JSON.parse(await readFile(jsonOutput, 'utf-8'))
+    const byName = (fullName: string) => results.tests.find(test => test.fullName === fullName)!
+
+    deepStrictEqual(results.success, false)
+    deepStrictEqual(results.duration, 1000)
+    deepStrictEqual(results.files, [
+      'test/fixtures/configurations/combined/first.test.js',
+      'test/fixtures/configurations/combined/second.test.js'
+    ])
+    deepStrictEqual(results.totals.files, 2)
+    deepStrictEqual(
+      results.totals.tests,
+      results.totals.passed +
+        results.totals.failed +
+        results.totals.cancelled +
+        results.totals.skipped +
+        results.totals.todo
+    )
+
+    deepStrictEqual(byName('pass'), {
+      type: 'test',
+      name: 'pass',
+      fullName: 'pass',
+      ancestors: [],
+      file: 'test/fixtures/configurations/combined/first.test.js',
+      line: 0,
+      column: 0,
+      nesting: 0,
+      status: 'passed',
+      duration: 1
+    })
+
+    deepStrictEqual(byName('todoWithMessage').status, 'todo')
+    deepStrictEqual(byName('todoWithMessage').reason, 'WTF')
+    deepStrictEqual(byName('skip').status, 'skipped')
+
+    const failed = byName('subtest > subtest 1 > subtest 1.1 > subtest 1.1.3')
+    deepStrictEqual(failed.status, 'failed')
+    deepStrictEqual(failed.ancestors, ['subtest', 'subtest 1', 'subtest 1.1'])
+    deepStrictEqual(failed.error!.message, 'fail')
+    deepStrictEqual(failed.error!.failureType, 'testCodeFailure')
+    match(failed.error!.stack!, /^Error: fail\n {4}at /)
+
+    deepStrictEqual(byName('subtest > subtest 1.2').status, 'cancelled')
+    deepStrictEqual(byName('subtest > subtest 1.2').error!.failureType, 'cancelledByParent')
+    deepStrictEqual(
+      byName('subtest > subtest 1.2').error!.message,
+      'test did not finish before its parent and was cancelled'
+    )
+
+    // Files failing on their own are listed with their error
+    const file = byName('test/fixtures/configurations/combined/first.test.js')
+    deepStrictEqual([file.status, file.ancestors, file.error!.failureType], ['failed', [], 'testTimeoutFailure'])
+    deepStrictEqual(file.error!.message, 'test timed out after 500ms')
+
+    await run('no-files', false, { jsonOutput })
+    deepStrictEqual(JSON.parse(await readFile(jsonOutput, 'utf-8')).tests, [])
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
+
+test('should report errors while writing the JSON results file', async () => {
+  await rejects(run('1pass', false, { jsonOutput: import.meta.filename + '/reports/results.json' }), /ENOTDIR/)
+})
+
+test('should write the JUnit XML report', async () => {
+  const root = await mkdtemp(resolve(tmpdir(), 'cleaner-spec-reporter-'))
+  const junitOutput = resolve(root, 'reports/junit.xml')
+
+  try {
+    const output = await run('combined', false, { junitOutput })
+
+    deepStrictEqual(output, await loadExpectedOutput('combined'))
+
+    const report = await readFile(junitOutput, 'utf-8')
+
+    match(report, /^<\?xml version="1\.0" encoding="UTF-8"\?>\n<testsuites name="node:test" tests="26" failures="16"/)
+    match(report, /<testsuite name="[^"]+\/combined\/second\.test\.js" tests="7" failures="5" skipped="0"/)
+    match(report, /<testsuite name="subtest 1\.2" tests="2" failures="2" skipped="0" time="0\.001">/)
+    match(
+      report,
+      /<testcase name="[^"]+\/combined\/first\.test\.js" [^>]+>\n {6}<failure message="Test timed out after 500ms\." type="testTimeoutFailure">/
+    )
+    match(report, /<skipped message="WTF"\/>/)
+    match(
+      report,
+      /<failure message="Error while running after hook\." type="hookFailed">Error while running after hook\./
+    )
+    match(report, /at TestContext\.&lt;anonymous&gt; \(/)
+    doesNotMatch(report, /subtestsFailed/)
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
+
+test('should write the Markdown report', async () => {
+  const root = await mkdtemp(resolve(tmpdir(), 'cleaner-spec-reporter-'))
+  const markdownOutput = resolve(root, 'reports/report.md')
+  const stepSummary = resolve(root, 'summary.md')
+  const originalStepSummary = process.env.GITHUB_STEP_SUMMARY
+
+  process.env.GITHUB_STEP_SUMMARY = stepSummary
+
+  try {
+    await writeFile(stepSummary, '# Previous step\n', 'utf-8')
+
+    const output = await run('combined', false, { markdownOutput, githubStepSummary: true })
+
+    deepStrictEqual(output, await loadExpectedOutput('combined'))
+
+    const report = await readFile(markdownOutput, 'utf-8')
+
+    ok(report.startsWith('## Test results\n\n![tests: failed](https://img.shields.io/badge/tests-failed-red)\n'))
+    ok(report.includes('| 34 | 0 | 8 | 17 | 6 | 1 | 2 | 2 | 1 second |'))
+    match(
+      report,
+      /<summary><code>test\/fixtures\/configurations\/combined\/first\.test\.js<\/code>: \d+ failures<\/summary>/
+    )
+
+    // The slowest tests are only listed when enabled
+    ok(!report.includes('### Slowest tests'))
+
+    // The job summary is shared with the other steps
+    deepStrictEqual(await readFile(stepSummary, 'utf-8'), '# Previous step\n' + report)
+  } finally {
+    process.env.GITHUB_STEP_SUMMARY = originalStepSummary
+    await rm(root, { recursive: true, force: true })
+  }
+})
+
+test('should print GitHub Actions annotations', async () => {
+  const output = await run('combined', false, { githubAnnotations: ['failures', 'todo'] })
+  const expected = await loadExpectedOutput('combined')
+
+  ok(output.startsWith(expected))
+
+  const annotations = output.slice(expected.length).trimEnd().split('\n')
+  const file = 'test/fixtures/configurations/combined'
+
+  deepStrictEqual(annotations.length, 18)
+  deepStrictEqual(annotations[0], `::notice file=${file}/first.test.js,line=0,col=0,title=todo::Test marked as TODO.`)
+  deepStrictEqual(annotations[1], `::notice file=${file}/first.test.js,line=0,col=0,title=todoWithMessage::WTF`)
+  deepStrictEqual(annotations[2], `::error file=${file}/first.test.js,line=0,col=0,title=fail::fail`)
+  ok(
+    annotations.includes(
+      `::error file=${file}/second.test.js,line=0,col=0,title=pass 2::Error while running after hook.`
+    )
+  )
+  ok(
+    annotations.includes(`::error file=${file}/first.test.js,title=${file}/first.test.js::Test timed out after 500ms.`)
+  )
+  ok(!annotations.some(annotation => annotation.includes('title=subtest,')))
+})
+
+test('should group the output of files running concurrently', async () => {
+  const events = await loadEvents('combined')
+  const byFile = new Map<string, TestReport[]>()
+  const global: TestReport[] = []
+
+  for (const event of events) {
+    if (!event.data?.file) {
+      global.push(event)
+      continue
+    }
+
+    let fileEvents = byFile.get(event.data.file)
+
+    if (!fileEvents) {
+      fileEvents = []
+      byFile.set(event.data.file, fileEvents)
+    }
+
+    fileEvents.push(event)
+  }
+
+  // Interleave the events of the files one by one, once the first file started
+  function interleave(first: TestReport[], second: TestReport[]): TestReport[] {
+    const started = first.findIndex(event => event.type === 'test:start') + 1
+    const interleaved: TestReport[] = first.slice(0, started)
+
+    for (let i = 0; i < Math.max(first.length - started, second.length); i++) {
+      interleaved.push(...second.slice(i, i + 1), ...first.slice(started + i, started + i + 1))
+    }
+
+    return interleaved
+  }
+
+  const [first, second] = [...byFile.values()]
+
+  const expected = await loadExpectedOutput('combined')
+  deepStrictEqual(await runEvents([...interleave(first, second), ...global]), expected)
+
+  // When the completion of the running file is never reported, the other files are shown at the end
+  const incomplete = first.filter(event => !(event.type === 'test:fail' && event.data.file!.endsWith(event.data.name)))
+  const output = await runEvents([...interleave(incomplete, second), ...global])
+
+  ok(output.startsWith('\u25B6 test/fixtures/configurations/combined/first.test.js\n'))
+  ok(
+    output.indexOf('\u25B6 test/fixtures/configurations/combined/second.test.js\n') >
+      output.indexOf('\u2716 local timeout')
+  )
+
+  // Since Node 22 the completion of a file is reported by its own summary
+  const file = incomplete[0].data.file!
+  const summary: TestReport = {
+    type: 'test:summary',
+    data: { name: '', nesting: 0, file, success: false, todo: false, skip: false }
+  }
+  const summarized = await runEvents([...interleave([...incomplete, summary], second), ...global])
+
+  // The file itself is not reported as a failed test anymore
+  deepStrictEqual(
+    summarized,
+    expected.replace(/ \n\u2716 test\/fixtures\/configurations\/combined\/first\.test\.js .+\n/, '')
+  )
+})
+
+test('should summarize and reset the state of each watch run', async () => {
+  const drained: TestReport = { type: 'test:watch:drained', data: { name: '', nesting: 0, todo: false, skip: false } }
+  const failed = testEvents('/cleaner-spec-reporter/test/a.test.js', [
+    ['start', 'first'],
+    ['pass', 'first'],
+    ['start', 'second'],
+    ['fail', 'second']
+  ])
+
+  failed.at(-1)!.data.details!.error = Object.assign(new Error('failed', { cause: new Error('fail') }), {
+    failureType: 'testCodeFailure'
+  })
+
+  // Suites are not counted as tests, while skipped tests are reported separately
+  const rerun = testEvents('/cleaner-spec-reporter/test/a.test.js', [
+    ['start', 'suite'],
+    ['start', 'first', 1],
+    ['pass', 'first', 1],
+    ['start', 'second', 1],
+    ['pass', 'second', 1],
+    ['start', 'third', 1],
+    ['pass', 'third', 1],
+    ['pass', 'suite']
+  ])
+
+  rerun[7].data.skip = true
+  rerun[8].data.details!.type = 'suite'
+
+  const output = await runEvents(
+    [
+      ...failed,
+      ...testEvents('/cleaner-spec-reporter/test/b.test.js', [
+        ['start', 'third'],
+        ['pass', 'third']
+      ]),
+      drained,
+      ...rerun,
+      drained
+    ],
+    { watchClearScreen: true }
+  )
+
+  const [first, second] = output.split('\u001bc')
+
+  ok(first.includes('▶ test/a.test.js\n'))
+  ok(first.includes('▶ test/b.test.js\n'))
+  ok(
+    first.endsWith(
+      [
+        '',
+        '▶ Run 1 FAILED with 2 tests passing out of 3 tests over 2 files.',
+        '  ✖ second (test/a.test.js:1)',
+        '',
+        '▶ Waiting for file changes ...',
+        '',
+        ''
+      ].join('\n')
+    )
+  )
+
+  ok(second.startsWith('▶ test/a.test.js\n'))
+  ok(!second.includes('test/b.test.js'))
+  ok(
+    second.endsWith(
+      [
+        '',
+        '▶ Run 2 PASSED with 2 tests passing out of 3 tests over 1 file (1 test was skipped).',
+        '  Rerun: test/a.test.js',
+        '',
+        '▶ Waiting for file changes ...',
+        '',
+        ''
+      ].join('\n')
+    )
+  )
+})
+
+test('should only show the tests which are not hidden', async () => {
+  const output = await run('combined', false, { hideTests: ['passed', 'skipped', 'todo'] })
+
+  ok(!output.includes('✔'))
+  ok(!output.includes('todoWithMessage'))
+  ok(!output.includes('todoAA'))
+  ok(!output.includes('subtest 1.1.1'))
+  ok(output.includes('ℹ subtest 4.2'))
+  ok(
+    output.includes(
+      [
+        '  ▶ subtest',
+        '    ',
+        '    ▶ subtest 1',
+        '      ',
+        '      ▶ subtest 1.1',
+        '        ',
+        '        ✖ subtest 1.1.3 (1ms)'
+      ].join('\n')
+    )
+  )
+  ok(output.includes('\n  ▶ subtest\n    \n    ▶ subtest 1.2\n      \n      ✖ subtest 1.2.1 (1ms)'))
+
+  // The summary is not affected
+  ok(output.includes('✖ Failed tests:'))
+
+  const withoutSkipped = await run('combined', false, { hideTests: ['skipped'] })
+  ok(!withoutSkipped.includes('# SKIP'))
+  ok(withoutSkipped.includes('✔ pass (1ms)'))
+  ok(withoutSkipped.includes('✔ todo (1ms) # TODO'))
+})
+
+test('should show a symbol for each test in the compact mode', async () => {
+  const output = await run('combined', false, { mode: 'dots' })
+  const [symbols, ...details] = output.split('\n')
+
+  match(symbols, /^tts\.F\.\.F[.F]+$/)
+  ok(!symbols.includes('s', 3))
+  deepStrictEqual(details[0], '')
+  deepStrictEqual(details[1], '▶ test/fixtures/configurations/combined/first.test.js')
+  ok(!output.includes('✔'))
+  ok(output.includes('\n  ✖ fail (1ms)\n'))
+  ok(output.includes('✖ Failed tests:'))
+
+  // Symbols are wrapped to the terminal width
+  const columns = process.stdout.columns
+  process.stdout.columns = 10
+
+  try {
+    const wrapped = await run('combined', false, { mode: 'dots' })
+
+    deepStrictEqual(wrapped.slice(0, wrapped.indexOf('\n\n')), symbols.match(/.{1,10}/g)!.join('\n'))
+  } finally {
+    process.stdout.columns = columns
+  }
+})
+
+test('should show a progress line in the compact mode on TTYs', async () => {
+  const file = '/cleaner-spec-reporter/test/a.test.js'
+  const [enqueue, ...events] = testEvents(file, [
+    ['start', 'parent'],
+    ['start', 'first', 1],
+    ['pass', 'first', 1],
+    ['start', 'second', 1],
+    ['pass', 'second', 1],
+    ['pass', 'parent']
+  ])
+
+  // Subtests are enqueued before starting
+  for (const name of ['first', 'second']) {
+    events.unshift({ type: 'test:enqueue', data: { name, nesting: 1, file, todo: false, skip: false } })
+  }
+
+  // Parents are enqueued as well, but they are not counted once they turn out to have subtests
+  events.unshift(enqueue, {
+    type: 'test:enqueue',
+    data: { name: 'parent', nesting: 0, file, todo: false, skip: false }
+  })
+
+  const output = await runEvents(events, { mode: 'dots', terminal: 'always' })
+  const lines = output.split('\r\u001b[2K')
+
+  deepStrictEqual(lines.length, 4)
+  match(lines[1], /^1\/2 1 passed, 0 failed, 0 skipped, 0 todo \(\d+(\.\d+)? seconds?\)$/)
+  match(lines[2], /^2\/2 2 passed, 0 failed, 0 skipped, 0 todo \(\d+(\.\d+)? seconds?\)$/)
+  ok(lines[3].startsWith('\n▶ Execution PASSED'))
+})
+
+test('should show the running tests in a status line on TTYs', async t => {
+  const file = '/cleaner-spec-reporter/test/a.test.js'
+  const [enqueue, start, pass] = testEvents(file, [
+    ['start', 'first'],
+    ['pass', 'first']
+  ])
+
+  function lifecycle(type: 'enqueue' | 'dequeue' | 'complete'): TestReport {
+    return { type: `test:${type}`, data: { name: 'first', nesting: 0, file, line: 1, todo: false, skip: false } }
+  }
+
+  const events = [enqueue, lifecycle('enqueue'), lifecycle('dequeue'), start, pass, lifecycle('complete')]
+  const output = await runEvents(events, { terminal: 'always' })
+  const lines = output.split('\r\u001b[2K')
+
+  match(lines[2], /^0\/1 0 passed, 0 failed, 0 skipped, 0 todo \(\d+(\.\d+)? seconds?\) \| first \(0 seconds\)$/)
+  match(lines[4], /^ {2}✔ first \(0ms\)\n1\/1 1 passed, .+ \| first \(0 seconds\)$/)
+
+  // Completed tests are removed from the status line, which is erased before the summary
+  match(lines[5], /^1\/1 1 passed, 0 failed, 0 skipped, 0 todo \(\d+(\.\d+)? seconds?\)$/)
+  ok(lines[6].startsWith('\n▶ Execution PASSED'))
+  deepStrictEqual(lines.length, 7)
+
+  // The status line can be disabled, and it is only shown on terminals
+  ok(!(await runEvents(events, { statusLine: false, terminal: 'always' })).includes('\r\u001b[2K'))
+  ok(!(await runEvents(events, { terminal: 'never' })).includes('\r\u001b[2K'))
+
+  // The elapsed times are updated periodically, until the run is drained in watch mode
+  t.mock.timers.enable({ apis: ['setInterval', 'Date'] })
+
+  const reporter = new TestReporter({ color: 'never', terminal: 'always' })
+  const chunks: string[] = []
+
+  reporter.on('data', chunk => chunks.push(chunk.toString()))
+
+  for (const event of events.slice(0, 3)) {
+    reporter.write(event)
+  }
+
+  await new Promise(resolve => setImmediate(resolve))
+  t.mock.timers.tick(1000)
+  deepStrictEqual(chunks.at(-1), '\r\u001b[2K0/1 0 passed, 0 failed, 0 skipped, 0 todo (1 second) | first (1 second)')
+
+  reporter.write({ type: 'test:watch:drained', data: { name: '', nesting: 0, todo: false, skip: false } })
+  await new Promise(resolve => setImmediate(resolve))
+  t.mock.timers.tick(1000)
+  ok(chunks.at(-1)!.startsWith('\r\u001b[2K\n▶ Run 1 PASSED'))
+
+  reporter.end()
+  await once(reporter, 'end')
+})
+
+// Node.js never interleaves the output with the events of the tests, but other producers of the events might
+test('should show the output below the test running when it is reported', async () => {
+  const file = '/cleaner-spec-reporter/test/a.test.js'
+  const [enqueue, startFirst, passFirst, startSecond, failSecond] = testEvents(file, [
+    ['start', 'first'],
+    ['pass', 'first'],
+    ['start', 'second'],
+    ['fail', 'second']
+  ])
+
+  failSecond.data.details!.error = Object.assign(new Error('failed', { cause: new Error('fail') }), {
+    failureType: 'testCodeFailure'
+  })
+
+  // Output events report the file relative to the working directory
+  function output(message: string, stderr: boolean = false): TestReport {
+    return {
+      type: stderr ? 'test:stderr' : 'test:stdout',
+      data: { name: '', nesting: 0, file: 'test/a.test.js', message, todo: false, skip: false }
+    }
+  }
+
+  function lifecycle(type: 'dequeue' | 'complete', name: string): TestReport {
+    return { type: `test:${type}`, data: { name, nesting: 0, file, line: 1, todo: false, skip: false } }
+  }
+
+  const events = [
+    enqueue,
+    output('top level\n'),
+    lifecycle('dequeue', 'first'),
+    output('first line\nsecond line\n'),
+    lifecycle('complete', 'first'),
+    startFirst,
+    passFirst,
+    lifecycle('dequeue', 'second'),
+    output('warning\n', true),
+    output('a\nb\nc\n'),
+    lifecycle('complete', 'second'),
+    startSecond,
+    failSecond
+  ]
+
+  const all = await runEvents(events)
+  ok(all.includes('\n  ✔ first (0ms)\n    first line\n    second line\n    \n  ✖ second (0ms)\n'))
+  ok(all.includes('\n    warning\n    a\n    b\n    c\n'))
+  ok(all.includes('\n  \n  top level\n\n▶ Execution'))
+
+  const failures = await runEvents(events, { testOutput: 'failures', testOutputLines: 2 })
+  ok(failures.includes('\n  ✔ first (0ms)\n  ✖ second (0ms)\n'))
+  ok(failures.includes('\n    warning\n    a\n    ... 2 more lines\n'))
+  ok(failures.includes('top level'))
+
+  const none = await runEvents(events, { testOutput: 'none' })
+  ok(!none.includes('line'))
+  ok(!none.includes('warning'))
+})
+
+test('should show the output of each file at its end, as Node.js reports it before the events of the tests', async () => {
+  // Output events report the file relative to the working directory, which is sanitized in the other events
+  const cwd = '/cleaner-spec-reporter'
+  const all = await run('output', false, { cwd })
+
+  deepStrictEqual(all, await loadExpectedOutput('output'))
+  ok(all.includes('  ✔ parent (1ms)\n  \n  first output\n  second output\n  parent output\n  child output\n'))
+  ok(all.includes('  ✔ passing (1ms)\n  \n  passing output\n'))
+
+  // Only the output of the files with failures is shown
+  const failures = await run('output', false, { cwd, testOutput: 'failures', testOutputLines: 2 })
+  ok(failures.includes('  ✔ parent (1ms)\n  \n  first output\n  second output\n  ... 2 more lines\n'))
+  ok(!failures.includes('passing output'))
+
+  const none = await run('output', false, { cwd, testOutput: 'none' })
+  ok(!none.includes('first output'))
+  ok(!none.includes('passing output'))
+})
+
+test('should show the commands to rerun the failed tests', async () => {
+  const output = await run('combined', false)
+
+  ok(
+    output.includes(
+      '.js:0)\n    \n    $ node --test --test-name-pattern="^pass 2$" --test-name-pattern="^fail$" --test-name-pattern="^subtest$" --test-name-pattern="^mismatched$" test/fixtures/configurations/combined/second.test.js\n'
+    )
+  )
+
+  const tests = await run('combined', false, { rerunCommands: 'tests' })
+  ok(
+    tests.includes(
+      '    - fail (test/fixtures/configurations/combined/first.test.js:0)\n      $ node --test --test-name-pattern="^fail$" test/fixtures/configurations/combined/first.test.js\n'
+    )
+  )
+
+  const none = await run('combined', false, { rerunCommands: 'none' })
+  ok(!none.includes('node --test'))
+
+  // Tests within suites can be rerun alone
+  const file = '/cleaner-spec-reporter/test/a.test.js'
+  const events = testEvents(file, [
+    ['start', 'suite (1)'],
+    ['start', 'failing.test', 1],
+    ['fail', 'failing.test', 1],
+    ['pass', 'suite (1)']
+  ])
+
+  events[3].data.details!.error = Object.assign(new Error('failed', { cause: new Error('fail') }), {
+    failureType: 'testCodeFailure'
+  })
+  events[4].data.details!.type = 'suite'
+
+  ok(
+    (await runEvents(events)).includes(
+      '$ node --test --test-name-pattern="^suite \\\\(1\\\\) failing\\\\.test$" test/a.test.js\n'
+    )
+  )
+})
+
+test('should show the details of the failed tests at the end', async () => {
+  const output = await run('combined', false, { failureDetails: true })
+  const [inline, rest] = output.split('✖ Failure details:\n')
+  const [details, summary] = rest.split('✖ Failed tests:\n')
+
+  ok(inline.includes('\n  ✖ fail (1ms) [2]\n'))
+  match(inline, /\n {2}✖ subtest - \d+ subtests failed\. \(1ms\)\n/)
+  ok(
+    details.startsWith(
+      '  \n  [1] todoWithMessage (test/fixtures/configurations/combined/first.test.js:0)\n    \n    Error: fail\n'
+    )
+  )
+  ok(
+    details.includes(
+      '\n  [5] subtest ▶ subtest 4 ▶ subtest 4.1 (test/fixtures/configurations/combined/first.test.js:0) - Test timed out after 100ms.\n  [6]'
+    )
+  )
+  ok(summary.includes('    - fail (test/fixtures/configurations/combined/first.test.js:0) [2]\n'))
+  ok(!details.includes('subtest 1 (test'))
+
+  ok(!(await run('combined', false)).includes('Failure details'))
+})
+
+test('should compare the run with the history', async () => {
+  const root = await mkdtemp(resolve(tmpdir(), 'cleaner-spec-reporter-'))
+  const historyFile = resolve(root, 'cache/history.json')
+  const file = '/cleaner-spec-reporter/test/a.test.js'
+
+  function events(failing: string, duration: number): TestReport[] {
+    const reports = testEvents(file, [
+      ['start', 'first'],
+      [failing === 'first' ? 'fail' : 'pass', 'first', 0, duration],
+      ['start', 'second'],
+      [failing === 'second' ? 'fail' : 'pass', 'second']
+    ])
+
+    for (const report of reports) {
+      if (report.type === 'test:fail') {
+        report.data.details!.error = Object.assign(new Error('failed', { cause: new Error('fail') }), {
+          failureType: 'testCodeFailure'
+        })
+      }
+    }
+
+    return reports
+  }
+
+  try {
+    const options = { history: true, historyFile }
+
+    ok(!(await runEvents(events('', 10), options)).includes('Newly'))
+
+    const second = await runEvents(events('second', 200), options)
+    ok(second.includes('\n✖ Newly failing tests:\n  \n  - second (test/a.test.js:1)\n'))
+    ok(second.includes('\n▶ Slower tests:\n  \n  - first (test/a.test.js:1) (200ms) (average 10ms)\n'))
+
+    const third = await runEvents(events('', 10), options)
+    ok(third.includes('\n✔ Newly fixed tests:\n  \n  - second (test/a.test.js:1)\n'))
+
+    const fourth = await runEvents(events('second', 10), options)
+    ok(fourth.includes('\n▶ Flaky tests:\n  \n  - second (test/a.test.js:1) changed status 3 times in 4 runs\n'))
+
+    const { runs } = JSON.parse(await readFile(historyFile, 'utf-8'))
+    deepStrictEqual(runs.length, 4)
+
+    // The history is not updated when disabled
+    await runEvents(events('', 10), { historyFile })
+    deepStrictEqual(JSON.parse(await readFile(historyFile, 'utf-8')).runs.length, 4)
+  } finally {
+    await rm(root, { recursive: true, force: true })
+  }
+})
+
+test('should show the tests still running when the run is interrupted', async () => {
+  const file = '/cleaner-spec-reporter/test/a.test.js'
+  const [enqueue, ...events] = testEvents(file, [
+    ['start', 'suite'],
+    ['start', 'fast', 1],
+    ['pass', 'fast', 1],
+    ['start', 'skipped', 1],
+    ['pass', 'skipped', 1],
+    ['pass', 'suite']
+  ])
+
+  events[4].data.skip = true
+  events[5].data.details!.type = 'suite'
+
+  function dequeue(name: string, nesting: number): TestReport {
+    return { type: 'test:dequeue', data: { name, nesting, file, line: 3, todo: false, skip: false } }
+  }
+
+  const running = [enqueue, ...events, dequeue('hung', 0), dequeue('hung child', 1)]
+
+  const output = await runEvents([...running, { type: 'test:interrupted', data: {} as TestReportData }])
+  match(
+    output,
+    /\n▶ Execution INTERRUPTED after \d+(\.\d+)? seconds? with 1 test passing out of 2 completed tests over 1 file \(1 test was skipped\)\.\n/
+  )
+  match(
+    output,
+    /\n▶ Tests still running:\n {2}\n {2}- hung \(test\/a\.test\.js:3\) running for \d+(\.\d+)? seconds?\n {2}- hung ▶ hung child \(test\/a\.test\.js:3\) running for/
+  )
+
+  // The running tests reported by the test runner are preferred
+  const reported = await runEvents([
+    ...running,
+    {
+      type: 'test:interrupted',
+      data: {
+        tests: [
+          { name: 'hung child', nesting: 1, file, line: 3 },
+          { name: 'unknown', nesting: 0, file, line: 5 }
+        ]
+      } as TestReportData
+    }
+  ])
+
+  match(reported, /\n {2}- hung ▶ hung child \(test\/a\.test\.js:3\) running for \d+(\.\d+)? seconds?\n/)
+  ok(reported.includes('\n  - unknown (test/a.test.js:5)\n'))
+  ok(!reported.includes('- hung (test'))
+})
+
+test('should localize the summary and the failures', async () => {
+  const file = '/cleaner-spec-reporter/test/a.test.js'
+  const events = testEvents(file, [
+    ['start', 'first'],
+    ['pass', 'first', 0, 1500],
+    ['start', 'second'],
+    ['fail', 'second']
+  ])
+
+  events[4].data.details!.error = Object.assign(new Error('failed', { cause: new Error('fail') }), {
+    failureType: 'testTimeoutFailure'
+  })
+  events[4].data.details!.error.cause = new Error('timeout')
+
+  // The duration of the run is reported by the test runner in its summary
+  events.push({
+    type: 'test:summary',
+    data: { name: '', nesting: 0, success: false, duration_ms: 1500, todo: false, skip: false }
+  })
+
+  const output = await runEvents(events, { locale: 'it' })
+
+  match(output, /\n▶ Esecuzione FALLITA dopo 1,500 secondi con 1 test superato su 2 test in 1 file\.\n/)
+  ok(output.includes('\n✖ Test falliti:\n'))
+  ok(output.includes('Il test è andato in timeout'))
+})
+
+test('should show the skip reasons and list the non-executed tests', async () => {
+  const file = '/cleaner-spec-reporter/test/a.test.js'
+  const events = testEvents(file, [
+    ['start', 'skipped'],
+    ['pass', 'skipped'],
+    ['start', 'todo'],
+    ['pass', 'todo'],
+    ['start', 'pending'],
+    ['pass', 'pending']
+  ])
+
+  events[2].data.skip = 'not supported'
+  events[4].data.todo = 'later'
+  events[6].data.todo = true
+
+  const output = await runEvents(events, { listTests: ['skipped', 'todo'] })
+
+  ok(output.includes('✔ skipped (0ms) # SKIP: not supported\n'))
+  ok(output.includes('✔ todo (0ms) # TODO: later\n'))
+  ok(
+    output.includes(
+      '\n▶ Skipped tests:\n  \n  ▶ test/a.test.js\n    \n    - skipped (test/a.test.js:1): not supported\n'
+    )
+  )
+  ok(
+    output.includes(
+      '\n▶ TODO tests:\n  \n  ▶ test/a.test.js\n    \n    - todo (test/a.test.js:1): later\n    - pending (test/a.test.js:1)\n'
+    )
+  )
+
+  // The sections are not shown by default
+  doesNotMatch(await runEvents(events), /Skipped tests|TODO tests/)
+})
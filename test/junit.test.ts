@@ -0,0 +1,141 @@
+import { deepStrictEqual } from 'node:assert'
+import test from 'node:test'
+import { TestCollector, getRunResults } from '../src/collector.ts'
+import { buildJUnitTree, escapeXml, formatJUnit } from '../src/junit.ts'
+import { result, runResults } from './helpers.ts'
+
+test('escapeXml should escape special characters and remove invalid ones', () => {
+  deepStrictEqual(escapeXml('<a href="x">\'&\'</a>'), '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;')
+  deepStrictEqual(escapeXml('\u001b[31mred\u001b[39m\u0000\u0007\n\tok'), 'red\n\tok')
+})
+
+test('buildJUnitTree should rebuild the hierarchy from the completion order', () => {
+  const tree = buildJUnitTree([
+    result('first'),
+    result('child 1', { nesting: 1 }),
+    result('grandchild', { nesting: 2, file: 'test/b.test.js' }),
+    result('child 2', { nesting: 1 }),
+    result('parent'),
+    result('other', { file: 'test/b.test.js' })
+  ])
+
+  deepStrictEqual([...tree.keys()], ['test/a.test.js', 'test/b.test.js'])
+
+  const [first, parent] = tree.get('test/a.test.js')!
+  deepStrictEqual(first.children, [])
+  deepStrictEqual(
+    parent.children.map(node => node.result.name),
+    ['child 1', 'child 2']
+  )
+
+  const [other] = tree.get('test/b.test.js')!
+  deepStrictEqual(
+    other.children.map(node => node.result.name),
+    ['grandchild']
+  )
+})
+
+test('formatJUnit should generate the XML report', () => {
+  const report = formatJUnit(
+    runResults([
+      result('pass'),
+      result('skip', { status: 'skipped' }),
+      result('todo', { status: 'todo', reason: 'later' }),
+      result('child', {
+        nesting: 1,
+        fullName: 'suite > child',
+        status: 'failed',
+        error: {
+          message: 'Expected <1>',
+          stack: 'Error: Expected <1>\n    at file.js:1:1',
+          failureType: 'testCodeFailure'
+        }
+      }),
+      result('suite', {
+        status: 'failed',
+        error: { message: '1 subtest failed', failureType: 'subtestsFailed', description: '1 subtest failed.' }
+      }),
+      result('child', { nesting: 1, fullName: 'hooks > child' }),
+      result('hooks', {
+        status: 'failed',
+        error: {
+          message: 'boom',
+          failureType: 'hookFailed',
+          description: 'Error while running before hook.'
+        }
+      })
+    ])
+  )
+
+  deepStrictEqual(
+    report,
+    [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="node:test" tests="6" failures="2" skipped="2" time="0.012">',
+      '  <testsuite name="test/a.test.js" tests="6" failures="2" skipped="2" time="0.010" file="test/a.test.js">',
+      '    <testcase name="pass" classname="test/a.test.js" time="0.002" file="test/a.test.js" line="1"/>',
+      '    <testcase name="skip" classname="test/a.test.js" time="0.002" file="test/a.test.js" line="1">',
+      '      <skipped/>',
+      '    </testcase>',
+      '    <testcase name="todo" classname="test/a.test.js" time="0.002" file="test/a.test.js" line="1">',
+      '      <skipped message="later"/>',
+      '    </testcase>',
+      '    <testsuite name="suite" tests="1" failures="1" skipped="0" time="0.002">',
+      '      <testcase name="suite &gt; child" classname="test/a.test.js" time="0.002" file="test/a.test.js" line="1">',
+      '        <failure message="Expected &lt;1&gt;" type="testCodeFailure">Error: Expected &lt;1&gt;\n    at file.js:1:1</failure>',
+      '      </testcase>',
+      '    </testsuite>',
+      '    <testsuite name="hooks" tests="2" failures="1" skipped="0" time="0.002">',
+      '      <testcase name="hooks" classname="test/a.test.js" time="0.002" file="test/a.test.js" line="1">',
+      '        <failure message="Error while running before hook." type="hookFailed">Error while running before hook.\n\nboom</failure>',
+      '      </testcase>',
+      '      <testcase name="hooks &gt; child" classname="test/a.test.js" time="0.002" file="test/a.test.js" line="1"/>',
+      '    </testsuite>',
+      '  </testsuite>',
+      '</testsuites>',
+      ''
+    ].join('\n')
+  )
+
+  deepStrictEqual(
+    formatJUnit(runResults([])),
+    '<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="node:test" tests="0" failures="0" skipped="0" time="0.012">\n</testsuites>\n'
+  )
+})
+
+test('formatJUnit should report the files failing on their own as failed test cases', () => {
+  const collector = new TestCollector({ cwd: '/root' })
+  const error = Object.assign(new Error('test failed'), { code: 'ERR_TEST_FAILURE', failureType: 'testCodeFailure' })
+  error.stack = 'Error [ERR_TEST_FAILURE]: test failed'
+
+  for (const [type, name, data] of [
+    ['fail', '/root/test/a.test.js', { details: { duration_ms: 5, type: 'test', error } }],
+    ['start', 'pass', { file: '/root/test/b.test.js' }],
+    ['pass', 'pass', { file: '/root/test/b.test.js', line: 1, details: { duration_ms: 2 } }],
+    ['pass', '/root/test/b.test.js', { file: '/root/test/b.test.js', details: { duration_ms: 3 } }],
+    ['summary', '', { file: undefined, success: false, duration_ms: 10 }]
+  ] as const) {
+    collector.collect({
+      type: `test:${type}`,
+      data: { name, nesting: 0, file: '/root/test/a.test.js', todo: false, skip: false, ...data }
+    })
+  }
+
+  deepStrictEqual(
+    formatJUnit(getRunResults(collector.run)),
+    [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="node:test" tests="2" failures="1" skipped="0" time="0.010">',
+      '  <testsuite name="test/a.test.js" tests="1" failures="1" skipped="0" time="0.005" file="test/a.test.js">',
+      '    <testcase name="test/a.test.js" classname="test/a.test.js" time="0.005" file="test/a.test.js">',
+      '      <failure message="test failed" type="testCodeFailure">Error [ERR_TEST_FAILURE]: test failed</failure>',
+      '    </testcase>',
+      '  </testsuite>',
+      '  <testsuite name="test/b.test.js" tests="1" failures="0" skipped="0" time="0.002" file="test/b.test.js">',
+      '    <testcase name="pass" classname="test/b.test.js" time="0.002" file="test/b.test.js" line="1"/>',
+      '  </testsuite>',
+      '</testsuites>',
+      ''
+    ].join('\n')
+  )
+})
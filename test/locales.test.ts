@@ -0,0 +1,34 @@
+import { deepStrictEqual } from 'node:assert'
+import test from 'node:test'
+import { detectLocale, formatList, formatLocalizedDuration, formatMessage, resolveLocale } from '../src/locales.ts'
+import { formatDuration } from '../src/utils.ts'
+
+test('formatMessage should choose the plural form using the locale plural rules', () => {
+  deepStrictEqual(formatMessage('en', 'tests', { count: 0 }), '0 tests')
+  deepStrictEqual(formatMessage('en', 'tests', { count: 1 }), '1 test')
+  deepStrictEqual(formatMessage('en', 'moreLines', { count: 3 }), '... 3 more lines')
+  deepStrictEqual(formatMessage('it', 'moreLines', { count: 1 }), '... 1 altra riga')
+  deepStrictEqual(formatMessage('it', 'moreLines', { count: 3 }), '... altre 3 righe')
+  deepStrictEqual(formatMessage('it', 'failedTests'), 'Test falliti:')
+
+  // Missing parameters are left untouched
+  deepStrictEqual(formatMessage('en', 'runningFor'), 'running for {duration}')
+})
+
+test('detectLocale and resolveLocale should use the POSIX locale variables', () => {
+  deepStrictEqual(detectLocale({}), 'en')
+  deepStrictEqual(detectLocale({ LANG: 'it_IT.UTF-8' }), 'it')
+  deepStrictEqual(detectLocale({ LANG: 'it_IT.UTF-8', LC_ALL: 'C' }), 'en')
+  deepStrictEqual(detectLocale({ LANG: 'en_US.UTF-8', LC_MESSAGES: 'it' }), 'it')
+  deepStrictEqual(detectLocale({ LANG: 'fr_FR.UTF-8' }), 'en')
+  deepStrictEqual(resolveLocale('auto', { LANG: 'it' }), 'it')
+  deepStrictEqual(resolveLocale('en', { LANG: 'it' }), 'en')
+})
+
+test('formatList, formatDuration and formatLocalizedDuration should use the locale separators and units', () => {
+  deepStrictEqual(formatList('en', ['a', 'b', 'c']), 'a, b and c')
+  deepStrictEqual(formatList('it', ['a', 'b', 'c']), 'a, b e c')
+  deepStrictEqual(formatDuration(1500, 'it'), '1,500 secondi')
+  deepStrictEqual(formatDuration(61 * 1000, 'it', ' e '), '1 minuto e 1 secondo')
+  deepStrictEqual(formatLocalizedDuration('it', 3661 * 1000), '1 ora, 1 minuto e 1 secondo')
+})
@@ -0,0 +1,174 @@
+import { deepStrictEqual } from 'node:assert'
+import test from 'node:test'
+import { escapeHtml, escapeMarkdown, formatBadge, formatCodeBlock, formatMarkdownReport } from '../src/markdown.ts'
+import { result, runResults } from './helpers.ts'
+
+test('escapeMarkdown should escape special characters and remove colors and new lines', () => {
+  deepStrictEqual(escapeMarkdown('\u001b[31m*a* | `b`\u001b[39m\n<c>'), '\\*a\\* \\| \\`b\\` \\<c\\>')
+})
+
+test('escapeHtml should escape the HTML special characters only', () => {
+  deepStrictEqual(escapeHtml('\u001b[31mtest/<a> & b_c*.js\u001b[39m'), 'test/&lt;a&gt; &amp; b_c*.js')
+})
+
+test('formatBadge should escape the separators of the badge', () => {
+  deepStrictEqual(
+    formatBadge('unit-tests', 'all passed', 'green'),
+    '![unit-tests: all passed](https://img.shields.io/badge/unit--tests-all%20passed-green)'
+  )
+})
+
+test('formatCodeBlock should use a fence longer than the backticks of the code', () => {
+  deepStrictEqual(formatCodeBlock('a\nb'), ['```', 'a', 'b', '```'])
+  deepStrictEqual(formatCodeBlock('a ```` b'), ['`````', 'a ```` b', '`````'])
+})
+
+test('formatMarkdownReport should format the counters, the failures and the slowest tests', () => {
+  const report = formatMarkdownReport(
+    runResults(
+      [
+        result('child', { fullName: 'parent > child', ancestors: ['parent'], nesting: 1, duration: 5 }),
+        result('parent', {
+          status: 'failed',
+          duration: 10,
+          error: { message: '1 subtest failed', failureType: 'subtestsFailed' }
+        }),
+        result('fail', { status: 'failed', line: 7, error: { message: 'expected\n1 to be 2' } }),
+        result('timeout', {
+          file: 'test/b_c.test.js',
+          status: 'cancelled',
+          error: { message: 'test timed out', description: 'Test timed out after 10ms.' }
+        })
+      ],
+      {
+        success: false,
+        duration: 1500,
+        totals: { tests: 3, suites: 0, passed: 2, failed: 1, cancelled: 0, skipped: 0, todo: 0, files: 1 }
+      }
+    ),
+    { slowestCount: 2, locale: 'en' }
+  )
+
+  deepStrictEqual(
+    report,
+    [
+      '## Test results',
+      '',
+      '![tests: failed](https://img.shields.io/badge/tests-failed-red)',
+      '',
+      '| Tests | Suites | Passed | Failed | Cancelled | Skipped | TODO | Files | Duration |',
+      '| ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+      '| 3 | 0 | 2 | 1 | 0 | 0 | 0 | 1 | 1.500 seconds |',
+      '',
+      '### Failures',
+      '',
+      '<details>',
+      '<summary><code>test/a.test.js</code>: 1 failure</summary>',
+      '',
+      '- **fail** (`test/a.test.js:7`)',
+      '',
+      '  ```',
+      '  expected',
+      '  1 to be 2',
+      '  ```',
+      '',
+      '</details>',
+      '',
+      '<details>',
+      '<summary><code>test/b_c.test.js</code>: 1 failure</summary>',
+      '',
+      '- **timeout** (`test/b_c.test.js:1`)',
+      '',
+      '  ```',
+      '  Test timed out after 10ms.',
+      '  ',
+      '  test timed out',
+      '  ```',
+      '',
+      '</details>',
+      '',
+      '### Slowest tests',
+      '',
+      '| Test | File | Duration |',
+      '| --- | --- | ---: |',
+      '| parent \\> child | `test/a.test.js:1` | 5ms |',
+      '| fail | `test/a.test.js:7` | 2ms |',
+      ''
+    ].join('\n')
+  )
+
+  // Successful runs without slowest tests only show the counters
+  const passed = formatMarkdownReport(runResults([result('pass')]), { slowestCount: 0, locale: 'en' })
+
+  deepStrictEqual(passed.split('\n')[2], '![tests: passed](https://img.shields.io/badge/tests-passed-brightgreen)')
+  deepStrictEqual(passed.split('\n').length, 8)
+})
+
+test('formatMarkdownReport should list the failed files and only the executed tests as the slowest', () => {
+  const report = formatMarkdownReport(
+    runResults([
+      result('skip', { status: 'skipped', duration: 30 }),
+      result('todo', { status: 'todo', duration: 20 }),
+      result('pass', { duration: 3 }),
+      result('test/b.test.js', {
+        fullName: 'test/b.test.js',
+        file: 'test/b.test.js',
+        line: undefined,
+        column: undefined,
+        status: 'failed',
+        duration: 40,
+        error: { message: 'test failed', failureType: 'testCodeFailure' }
+      })
+    ]),
+    { slowestCount: 5, locale: 'en' }
+  )
+
+  deepStrictEqual(
+    report.split('### Failures\n\n')[1],
+    [
+      '<details>',
+      '<summary><code>test/b.test.js</code>: 1 failure</summary>',
+      '',
+      '- **test/b.test.js**',
+      '',
+      '  ```',
+      '  test failed',
+      '  ```',
+      '',
+      '</details>',
+      '',
+      '### Slowest tests',
+      '',
+      '| Test | File | Duration |',
+      '| --- | --- | ---: |',
+      '| pass | `test/a.test.js:1` | 3ms |',
+      ''
+    ].join('\n')
+  )
+})
+
+test('formatMarkdownReport should use the locale', () => {
+  const report = formatMarkdownReport(
+    runResults([
+      result('fail', { status: 'failed', error: { message: 'fail' } }),
+      result('other', { status: 'failed', error: { message: 'fail' } })
+    ]),
+    { slowestCount: 1, locale: 'it' }
+  )
+
+  deepStrictEqual(
+    report.split('\n').filter(line => /^(#|\||<summary>)/.test(line)),
+    [
+      '## Risultati dei test',
+      '| Test | Suite | Superati | Falliti | Annullati | Saltati | TODO | File | Durata |',
+      '| ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: | ---: |',
+      '| 0 | 0 | 0 | 0 | 0 | 0 | 0 | 1 | 0,012 secondi |',
+      '### Fallimenti',
+      '<summary><code>test/a.test.js</code>: 2 fallimenti</summary>',
+      '### Test più lenti',
+      '| Test | File | Durata |',
+      '| --- | --- | ---: |',
+      '| fail | `test/a.test.js:1` | 2ms |'
+    ]
+  )
+})
@@ -0,0 +1,265 @@
+import { deepStrictEqual, throws } from 'node:assert'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import test from 'node:test'
+import {
+  defaultOptions,
+  isTerminalOutput,
+  loadEnvDefaults,
+  loadEnvOptions,
+  loadPackageJsonOptions,
+  resolveOptions,
+  resolveTerminal,
+  validateOptions
+} from '../src/options.ts'
+
+function withPackageJson(contents: string | null, fn: (root: string) => void): void {
+  const root = mkdtempSync(resolve(tmpdir(), 'cleaner-spec-reporter-'))
+
+  try {
+    if (contents !== null) {
+      writeFileSync(resolve(root, 'package.json'), contents)
+    }
+
+    fn(root)
+  } finally {
+    rmSync(root, { recursive: true, force: true })
+  }
+}
+
+test('validateOptions should accept valid options', () => {
+  const options = {
+    cwd: '/tmp',
+    color: 'never',
+    symbols: { pass: 'v' },
+    indentation: 4,
+    verbosity: 'verbose',
+    sections: ['summary', 'failures']
+  }
+
+  deepStrictEqual(validateOptions(options), options)
+
+  // Undefined values are ignored
+  deepStrictEqual(validateOptions({ cwd: undefined }), { cwd: undefined })
+})
+
+test('validateOptions should reject invalid options', () => {
+  throws(() => validateOptions(null), /The reporter options must be an object\./)
+  throws(() => validateOptions([]), /The reporter options must be an object\./)
+  throws(() => validateOptions({ foo: 1 }), /Unknown option "foo"\./)
+  throws(() => validateOptions({ cwd: '' }), /The "cwd" option must be a non-empty string\./)
+  throws(() => validateOptions({ color: 'sometimes' }), /The "color" option must be one of "auto", "always", "never"\./)
+  throws(
+    () => validateOptions({ indentation: 0 }),
+    /The "indentation" option must be an integer greater than or equal to 1\./
+  )
+  throws(() => validateOptions({ indentation: 1.5 }), /The "indentation" option must be an integer/)
+  throws(() => validateOptions({ sections: 'summary' }), /The "sections" option must be an array containing only/)
+  throws(() => validateOptions({ sections: ['foo'] }), /The "sections" option must be an array containing only/)
+  throws(() => validateOptions({ sourceExcerpt: 'true' }), /The "sourceExcerpt" option must be a boolean\./)
+  throws(
+    () => validateOptions({ coverageThresholds: { lines: 101 } }),
+    /The "coverageThresholds" option can only contain number values between 0 and 100 for the keys "lines", "branches", "functions"\./
+  )
+  throws(
+    () => validateOptions({ coverageThresholds: { lines: '80' } }),
+    /The "coverageThresholds" option can only contain number values/
+  )
+  throws(() => validateOptions({ symbols: 'foo' }), /The "symbols" option must be an object\./)
+  throws(() => validateOptions({ symbols: { foo: 'bar' } }), /The "symbols" option can only contain string values/)
+  throws(() => validateOptions({ symbols: { pass: 1 } }), /The "symbols" option can only contain string values/)
+  throws(
+    () => validateOptions({ theme: 'dark' }),
+    /The "theme" option must be one of "auto", "default", "ascii", "high-contrast", "colorblind"\./
+  )
+  throws(() => validateOptions({ colors: { pink: 'red' } }), /The "colors" option can only contain string values/)
+})
+
+test('loadEnvOptions should parse environment variables', () => {
+  deepStrictEqual(loadEnvOptions({}), {})
+  deepStrictEqual(loadEnvOptions({ TEST_ROOT: '/root', FORCE_COLOR: 'true', NO_COLOR: 'true' }), {
+    cwd: '/root',
+    color: 'always'
+  })
+  deepStrictEqual(loadEnvOptions({ NO_COLOR: 'true' }), { color: 'never' })
+  deepStrictEqual(loadEnvOptions({ GITHUB_ACTIONS: 'true' }), {})
+  deepStrictEqual(
+    loadEnvOptions({ GITHUB_ACTIONS: 'true', CLEANER_SPEC_REPORTER_GITHUB_ANNOTATIONS: 'failures,todo' }),
+    { githubAnnotations: ['failures', 'todo'] }
+  )
+
+  deepStrictEqual(
+    loadEnvOptions({
+      TEST_ROOT: '/root',
+      CLEANER_SPEC_REPORTER_CWD: '/other',
+      CLEANER_SPEC_REPORTER_COLOR: 'auto',
+      CLEANER_SPEC_REPORTER_INDENTATION: '3',
+      CLEANER_SPEC_REPORTER_VERBOSITY: 'quiet',
+      CLEANER_SPEC_REPORTER_SECTIONS: 'summary, files,',
+      CLEANER_SPEC_REPORTER_SYMBOLS: '{"fail":"x"}',
+      CLEANER_SPEC_REPORTER_SOURCE_EXCERPT: 'false',
+      CLEANER_SPEC_REPORTER_STACK_FILTER: 'internal'
+    }),
+    {
+      cwd: '/other',
+      color: 'auto',
+      indentation: 3,
+      verbosity: 'quiet',
+      sections: ['summary', 'files'],
+      symbols: { fail: 'x' },
+      sourceExcerpt: false,
+      stackFilter: ['internal']
+    }
+  )
+
+  deepStrictEqual(loadEnvOptions({ CLEANER_SPEC_REPORTER_SOURCE_EXCERPT: 'true' }), { sourceExcerpt: true })
+  throws(
+    () => loadEnvOptions({ CLEANER_SPEC_REPORTER_SOURCE_EXCERPT: 'yes' }),
+    /The "sourceExcerpt" option must be a boolean/
+  )
+
+  throws(
+    () => loadEnvOptions({ CLEANER_SPEC_REPORTER_INDENTATION: 'two' }),
+    /The "indentation" option must be an integer/
+  )
+  throws(
+    () => loadEnvOptions({ CLEANER_SPEC_REPORTER_SYMBOLS: '{' }),
+    /The CLEANER_SPEC_REPORTER_SYMBOLS environment variable must contain valid JSON\./
+  )
+})
+
+test('loadPackageJsonOptions should read the package.json key', () => {
+  withPackageJson(null, root => {
+    deepStrictEqual(loadPackageJsonOptions(root), {})
+  })
+
+  withPackageJson('{', root => {
+    deepStrictEqual(loadPackageJsonOptions(root), {})
+  })
+
+  withPackageJson('{"name":"foo"}', root => {
+    deepStrictEqual(loadPackageJsonOptions(root), {})
+  })
+
+  withPackageJson('{"cleaner-spec-reporter":{"indentation":4}}', root => {
+    deepStrictEqual(loadPackageJsonOptions(root), { indentation: 4 })
+  })
+
+  withPackageJson('{"cleaner-spec-reporter":{"indentation":-1}}', root => {
+    throws(
+      () => loadPackageJsonOptions(root),
+      /Invalid "cleaner-spec-reporter" key in package.json: The "indentation" option must be an integer/
+    )
+  })
+})
+
+test('isTerminalOutput should detect when the output goes to another destination', () => {
+  deepStrictEqual(isTerminalOutput([], true), true)
+  deepStrictEqual(isTerminalOutput([], false), false)
+  deepStrictEqual(isTerminalOutput(['--test-reporter-destination=stdout'], true), true)
+  deepStrictEqual(isTerminalOutput(['--test-reporter-destination', 'stdout'], true), true)
+  deepStrictEqual(isTerminalOutput(['--test-reporter-destination=report.txt'], true), false)
+  deepStrictEqual(
+    isTerminalOutput(['--test-reporter-destination', 'stdout', '--test-reporter-destination', 'a'], true),
+    false
+  )
+})
+
+test('resolveTerminal should allow to override the detection', () => {
+  deepStrictEqual(resolveTerminal('auto', true), true)
+  deepStrictEqual(resolveTerminal('auto', false), false)
+  deepStrictEqual(resolveTerminal('always', false), true)
+  deepStrictEqual(resolveTerminal('never', true), false)
+})
+
+test('loadEnvDefaults should annotate failures in GitHub Actions unless package.json overrides it', () => {
+  deepStrictEqual(loadEnvDefaults({}), {})
+  deepStrictEqual(loadEnvDefaults({ GITHUB_ACTIONS: 'true' }), { githubAnnotations: ['failures'] })
+
+  const originalEnv = { ...process.env }
+  const cwd = process.cwd()
+
+  try {
+    process.env.GITHUB_ACTIONS = 'true'
+    delete process.env.CLEANER_SPEC_REPORTER_GITHUB_ANNOTATIONS
+
+    withPackageJson(null, root => {
+      process.chdir(root)
+      deepStrictEqual(resolveOptions().githubAnnotations, ['failures'])
+    })
+
+    withPackageJson('{"cleaner-spec-reporter":{"githubAnnotations":["failures","slow"]}}', root => {
+      process.chdir(root)
+      deepStrictEqual(resolveOptions().githubAnnotations, ['failures', 'slow'])
+    })
+
+    withPackageJson('{"cleaner-spec-reporter":{"githubAnnotations":[]}}', root => {
+      process.chdir(root)
+      deepStrictEqual(resolveOptions().githubAnnotations, [])
+    })
+
+    withPackageJson('{"cleaner-spec-reporter":{"githubAnnotations":["slow"]}}', root => {
+      process.chdir(cwd)
+      deepStrictEqual(resolveOptions({ cwd: root }).githubAnnotations, ['slow'])
+    })
+  } finally {
+    process.chdir(cwd)
+    process.env = originalEnv
+  }
+})
+
+test('resolveOptions should merge defaults, environment and explicit options', () => {
+  const originalEnv = { ...process.env }
+
+  try {
+    process.env.TEST_ROOT = '/env'
+    process.env.CLEANER_SPEC_REPORTER_INDENTATION = '3'
+    process.env.CLEANER_SPEC_REPORTER_SYMBOLS = '{"fail":"x"}'
+    delete process.env.FORCE_COLOR
+    delete process.env.NO_COLOR
+    delete process.env.GITHUB_ACTIONS
+    delete process.env.TERM
+    delete process.env.LC_ALL
+    delete process.env.LC_MESSAGES
+    process.env.LANG = 'it_IT.UTF-8'
+
+    deepStrictEqual(
+      resolveOptions(
+        { indentation: 5, symbols: { pass: 'v' }, coverageThresholds: { lines: 90 } },
+        { pass: 'p', fail: 'f', hyphen: '-' }
+      ),
+      {
+        ...defaultOptions,
+        coverageThresholds: { lines: 90, branches: 80, functions: 80 },
+        cwd: '/env',
+        indentation: 5,
+        symbols: { pass: 'v', fail: 'x', hyphen: '-' },
+        colors: {},
+        locale: 'it'
+      }
+    )
+
+    // Themes are customized by the explicit symbols and colors
+    const themed = resolveOptions(
+      { theme: 'ascii', symbols: { pass: 'OK ' }, colors: { red: 'magenta', blue: '\u001b[94m' } },
+      { pass: 'p', fail: 'f' }
+    )
+
+    deepStrictEqual(themed.symbols.pass, 'OK ')
+    deepStrictEqual(themed.symbols.fail, 'x')
+    deepStrictEqual(themed.symbols.verticalBar, '|')
+    deepStrictEqual(themed.colors, { red: '\u001b[35m', blue: '\u001b[94m' })
+
+    process.env.TERM = 'linux'
+    deepStrictEqual(resolveOptions({}, { pass: 'p' }).symbols.pass, 'v ')
+    deepStrictEqual(resolveOptions({ theme: 'colorblind' }, { pass: 'p' }).symbols.pass, 'p')
+
+    delete process.env.TEST_ROOT
+    deepStrictEqual(resolveOptions({ cwd: undefined }).cwd, process.cwd())
+
+    throws(() => resolveOptions(JSON.parse('{"verbosity":"loud"}')), /The "verbosity" option must be one of/)
+  } finally {
+    process.env = originalEnv
+  }
+})
@@ -0,0 +1,51 @@
+import { deepStrictEqual, ok } from 'node:assert'
+import { once } from 'node:events'
+import test from 'node:test'
+import { type CollectedRun, type CollectorEvent, type TestReport, TestReporter } from '../src/index.ts'
+import { type TestRenderer, RendererReporter } from '../src/renderer.ts'
+
+const file = '/root/test/a.test.js'
+
+async function render(reporter: RendererReporter, reports: TestReport[]): Promise<string> {
+  const chunks: Buffer[] = []
+
+  reporter.on('data', chunk => chunks.push(chunk))
+
+  for (const report of reports) {
+    reporter.write(report)
+  }
+
+  reporter.end()
+  await once(reporter, 'end')
+
+  return Buffer.concat(chunks).toString()
+}
+
+const reports: TestReport[] = ['first', 'second'].flatMap((name, i) => [
+  { type: 'test:start', data: { name, nesting: 0, file, todo: false, skip: false } },
+  { type: `test:${i === 0 ? 'pass' : 'fail'}`, data: { name, nesting: 0, file, todo: false, skip: false } }
+])
+
+test('RendererReporter should render the collected results with a custom renderer', async () => {
+  const renderer: TestRenderer = {
+    render(event: CollectorEvent): string {
+      return event.type === 'test' ? `${event.test.fullName}: ${event.test.status}\n` : ''
+    },
+    finish(run: CollectedRun): string {
+      return `${run.totals.passed}/${run.totals.tests} passed\n`
+    }
+  }
+
+  deepStrictEqual(
+    await render(new RendererReporter(renderer, { cwd: '/root' }), reports),
+    'first: passed\nsecond: failed\n1/2 passed\n'
+  )
+})
+
+test('RendererReporter should render nothing without a renderer', async () => {
+  deepStrictEqual(await render(new RendererReporter(), reports), '')
+})
+
+test('TestReporter should be the default renderer', () => {
+  ok(new TestReporter() instanceof RendererReporter)
+})
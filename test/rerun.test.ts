@@ -0,0 +1,29 @@
+import { deepStrictEqual } from 'node:assert'
+import test from 'node:test'
+import { escapeRegExp, formatRerunCommand, formatTestNamePattern, quoteShellArgument } from '../src/rerun.ts'
+
+test('escapeRegExp should escape all regular expressions metacharacters', () => {
+  deepStrictEqual(
+    escapeRegExp('a.b*c+d?e^f$g{h}i(j)k|l[m]n\\o'),
+    'a\\.b\\*c\\+d\\?e\\^f\\$g\\{h\\}i\\(j\\)k\\|l\\[m\\]n\\\\o'
+  )
+  deepStrictEqual(new RegExp(`^${escapeRegExp('(a+b)*')}$`).test('(a+b)*'), true)
+})
+
+test('quoteShellArgument should escape characters interpreted within double quotes', () => {
+  deepStrictEqual(quoteShellArgument('say "hi" to $USER `now` \\o/'), '"say \\"hi\\" to \\$USER \\`now\\` \\\\o/"')
+  deepStrictEqual(quoteShellArgument('^name$'), '"^name$"')
+})
+
+test('formatTestNamePattern should match the test and its ancestors', () => {
+  deepStrictEqual(formatTestNamePattern(['fail']), '^fail$')
+  deepStrictEqual(formatTestNamePattern(['suite (1)', 'test.1']), '^suite \\(1\\) test\\.1$')
+})
+
+test('formatRerunCommand should build a ready to run command', () => {
+  deepStrictEqual(formatRerunCommand('test/a.test.js'), 'node --test test/a.test.js')
+  deepStrictEqual(
+    formatRerunCommand('test/my tests/a.test.js', ['^fail$', '^suite \\$HOME$']),
+    'node --test --test-name-pattern="^fail$" --test-name-pattern="^suite \\\\\\$HOME$" "test/my tests/a.test.js"'
+  )
+})
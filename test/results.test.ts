@@ -0,0 +1,93 @@
+import { deepStrictEqual } from 'node:assert'
+import test from 'node:test'
+import {
+  describeFailure,
+  getFullName,
+  getTestReason,
+  getTestStatus,
+  isOwnFailure,
+  serializeTestError
+} from '../src/results.ts'
+import { result } from './helpers.ts'
+
+test('describeFailure should explain why a test failed', () => {
+  deepStrictEqual(describeFailure({ failureType: 'testCodeFailure', message: 'fail' }), undefined)
+  deepStrictEqual(
+    describeFailure({ failureType: 'callbackAndPromisePresent' }),
+    'Test both accepted a callback but returned a Promise.'
+  )
+  deepStrictEqual(describeFailure({ failureType: 'cancelledByParent' }), 'Test cancelled by its parent.')
+  deepStrictEqual(describeFailure({ failureType: 'testAborted' }), 'Test aborted.')
+  deepStrictEqual(describeFailure({ failureType: 'parentAlreadyFinished' }), 'Parent test already completed.')
+  deepStrictEqual(describeFailure({ failureType: 'subtestsFailed', message: '1 subtest failed' }), '1 subtest failed.')
+  deepStrictEqual(
+    describeFailure({ failureType: 'subtestsFailed', message: '3 subtests failed' }),
+    '3 subtests failed.'
+  )
+  deepStrictEqual(
+    describeFailure({ failureType: 'testTimeoutFailure', message: 'test timed out after 100ms' }),
+    'Test timed out after 100ms.'
+  )
+  deepStrictEqual(
+    describeFailure({ failureType: 'hookFailed', message: 'failed running beforeEach hook' }),
+    'Error while running beforeEach hook.'
+  )
+})
+
+test('getFullName should join the names with a fixed separator', () => {
+  deepStrictEqual(getFullName([], 'test'), 'test')
+  deepStrictEqual(getFullName(['suite', 'parent'], 'test'), 'suite > parent > test')
+})
+
+test('isOwnFailure should ignore the tests which only failed because of their subtests', () => {
+  deepStrictEqual(isOwnFailure(result('pass')), false)
+  deepStrictEqual(isOwnFailure(result('fail', { status: 'failed', error: { message: 'fail' } })), true)
+  deepStrictEqual(isOwnFailure(result('cancelled', { status: 'cancelled' })), true)
+  deepStrictEqual(
+    isOwnFailure(result('parent', { status: 'failed', error: { message: '', failureType: 'subtestsFailed' } })),
+    false
+  )
+})
+
+test('getTestStatus should compute the status of a test', () => {
+  deepStrictEqual(getTestStatus(true, undefined, undefined), 'passed')
+  deepStrictEqual(getTestStatus(false, undefined, undefined, 'testCodeFailure'), 'failed')
+  deepStrictEqual(getTestStatus(false, undefined, undefined, 'cancelledByParent'), 'cancelled')
+  deepStrictEqual(getTestStatus(true, 'reason', undefined), 'skipped')
+  deepStrictEqual(getTestStatus(false, false, true), 'todo')
+})
+
+test('getTestReason should return the skip or TODO reason', () => {
+  deepStrictEqual(getTestReason(true, undefined), undefined)
+  deepStrictEqual(getTestReason('not ready', undefined), 'not ready')
+  deepStrictEqual(getTestReason(undefined, 'later'), 'later')
+  deepStrictEqual(getTestReason(undefined, ''), undefined)
+})
+
+test('serializeTestError should serialize the meaningful error', () => {
+  const cause = new Error('cause')
+  const wrapper = Object.assign(new Error('wrapper', { cause }), {
+    failureType: 'testCodeFailure',
+    code: 'ERR_TEST_FAILURE'
+  })
+
+  deepStrictEqual(serializeTestError(wrapper), {
+    message: 'cause',
+    stack: cause.stack,
+    failureType: 'testCodeFailure',
+    code: 'ERR_TEST_FAILURE'
+  })
+
+  deepStrictEqual(
+    serializeTestError(Object.assign(new Error('wrapper', { cause: 'string' }), { failureType: 'hookFailed' })),
+    {
+      message: 'string',
+      stack: undefined,
+      failureType: 'hookFailed',
+      description: 'Error while running unknown hook.'
+    }
+  )
+
+  const timeout = new Error('test timed out after 100ms')
+  deepStrictEqual(serializeTestError(timeout), { message: 'test timed out after 100ms', stack: timeout.stack })
+})
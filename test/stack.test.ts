@@ -0,0 +1,147 @@
+import { deepStrictEqual } from 'node:assert'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import test from 'node:test'
+import { pathToFileURL } from 'node:url'
+import { cleanStack, formatSourceExcerpt, getStackFrameType, parseStackFrame, readSourceLines } from '../src/stack.ts'
+
+const colors = { gray: '', red: '', bold: '', reset: '' }
+
+test('parseStackFrame should parse stack frames', () => {
+  deepStrictEqual(parseStackFrame('Error: fail'), null)
+
+  deepStrictEqual(parseStackFrame('    at foo (/root/file.js:1:2)'), {
+    prefix: '    at ',
+    name: 'foo',
+    location: '/root/file.js',
+    file: '/root/file.js',
+    line: 1,
+    column: 2
+  })
+
+  deepStrictEqual(parseStackFrame('    at file:///root/file.js:3:4'), {
+    prefix: '    at ',
+    name: undefined,
+    location: 'file:///root/file.js',
+    file: '/root/file.js',
+    line: 3,
+    column: 4
+  })
+
+  deepStrictEqual(parseStackFrame('    at Test.run (node:internal/test_runner/test:1:2)'), {
+    prefix: '    at ',
+    name: 'Test.run',
+    location: 'node:internal/test_runner/test',
+    line: 1,
+    column: 2
+  })
+
+  deepStrictEqual(parseStackFrame('    at new Promise (<anonymous>)'), {
+    prefix: '    at ',
+    name: 'new Promise',
+    location: '<anonymous>'
+  })
+})
+
+test('getStackFrameType should classify frames', () => {
+  deepStrictEqual(getStackFrameType(parseStackFrame('    at foo (node:internal/foo:1:2)')!), 'internal')
+  deepStrictEqual(getStackFrameType(parseStackFrame('    at async Promise.all (index 0)')!), 'internal')
+  deepStrictEqual(
+    getStackFrameType(parseStackFrame('    at foo (/root/node_modules/foo/index.js:1:2)')!),
+    'node_modules'
+  )
+  deepStrictEqual(getStackFrameType(parseStackFrame('    at foo (/root/index.js:1:2)')!), 'user')
+})
+
+test('formatSourceExcerpt should show the source around the failing line', () => {
+  const root = mkdtempSync(resolve(tmpdir(), 'cleaner-spec-reporter-'))
+  const file = resolve(root, 'source.js')
+
+  try {
+    writeFileSync(file, 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n')
+    const sources = new Map<string, string[] | null>()
+
+    deepStrictEqual(formatSourceExcerpt({ prefix: '', location: file, file, line: 9, column: 3 }, 1, colors, sources), [
+      '   8 | eight',
+      '>  9 | nine',
+      '     |   ^',
+      '  10 | ten'
+    ])
+
+    deepStrictEqual(formatSourceExcerpt({ prefix: '', location: file, file, line: 1, column: 1 }, 0, colors, sources), [
+      '> 1 | one',
+      '    | ^'
+    ])
+
+    // Invalid frames
+    deepStrictEqual(formatSourceExcerpt({ prefix: '', location: file, file, line: 100, column: 1 }, 0, colors), [])
+    deepStrictEqual(formatSourceExcerpt({ prefix: '', location: 'node:foo' }, 0, colors), [])
+    deepStrictEqual(readSourceLines(resolve(root, 'missing.js'), sources), null)
+    deepStrictEqual(sources.get(resolve(root, 'missing.js')), null)
+  } finally {
+    rmSync(root, { recursive: true, force: true })
+  }
+})
+
+test('cleanStack should filter frames, rewrite paths and show the source excerpt', () => {
+  const root = mkdtempSync(resolve(tmpdir(), 'cleaner-spec-reporter-'))
+  const file = resolve(root, 'source.js')
+
+  try {
+    writeFileSync(file, 'one\ntwo\nthree\n')
+
+    const stack = [
+      'Error: fail',
+      '    at Test.run (node:internal/test_runner/test:1:2)',
+      `    at foo (${file}:2:3)`,
+      `    at ${pathToFileURL(resolve(root, 'other.js')).toString()}:1:1`,
+      `    at bar (${resolve(root, 'node_modules/foo/index.js')}:1:2)`,
+      '    at new Promise (<anonymous>)'
+    ].join('\n')
+
+    const options = { cwd: root, filter: [], excerpt: false, context: 0, colors }
+
+    deepStrictEqual(
+      cleanStack(stack, { ...options, filter: ['internal', 'node_modules'] }),
+      ['Error: fail', '    at foo (source.js:2:3)', '    at other.js:1:1'].join('\n')
+    )
+
+    deepStrictEqual(
+      cleanStack(stack, { ...options, filter: ['internal'], excerpt: true }),
+      [
+        'Error: fail',
+        '',
+        '> 2 | two',
+        '    |   ^',
+        '',
+        '    at foo (source.js:2:3)',
+        '    at other.js:1:1',
+        '    at bar (node_modules/foo/index.js:1:2)'
+      ].join('\n')
+    )
+
+    deepStrictEqual(
+      cleanStack(stack, options),
+      [
+        'Error: fail',
+        '    at Test.run (node:internal/test_runner/test:1:2)',
+        '    at foo (source.js:2:3)',
+        '    at other.js:1:1',
+        '    at bar (node_modules/foo/index.js:1:2)',
+        '    at new Promise (<anonymous>)'
+      ].join('\n')
+    )
+
+    // Unreadable files do not prevent the excerpt of the following frames
+    deepStrictEqual(
+      cleanStack(`Error: fail\n\n    at ${resolve(root, 'missing.js')}:1:1\n    at ${file}:1:1`, {
+        ...options,
+        excerpt: true
+      }),
+      ['Error: fail', '', '    at missing.js:1:1', '', '> 1 | one', '    | ^', '', '    at source.js:1:1'].join('\n')
+    )
+  } finally {
+    rmSync(root, { recursive: true, force: true })
+  }
+})
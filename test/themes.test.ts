@@ -0,0 +1,31 @@
+import { deepStrictEqual } from 'node:assert'
+import test from 'node:test'
+import { isUnicodeSupported, resolveColor, resolveThemeName, themes } from '../src/themes.ts'
+
+test('isUnicodeSupported should detect terminals which cannot render Unicode', () => {
+  deepStrictEqual(isUnicodeSupported({}, 'linux'), true)
+  deepStrictEqual(isUnicodeSupported({ TERM: 'linux' }, 'linux'), false)
+  deepStrictEqual(isUnicodeSupported({}, 'win32'), false)
+  deepStrictEqual(isUnicodeSupported({ WT_SESSION: '1' }, 'win32'), true)
+  deepStrictEqual(isUnicodeSupported({ TERM_PROGRAM: 'vscode' }, 'win32'), true)
+})
+
+test('resolveThemeName should fallback to ASCII when Unicode is not supported', () => {
+  deepStrictEqual(resolveThemeName('auto', true), 'default')
+  deepStrictEqual(resolveThemeName('auto', false), 'ascii')
+  deepStrictEqual(resolveThemeName('high-contrast', false), 'high-contrast')
+})
+
+test('resolveColor should support inspect colors names and escape sequences', () => {
+  deepStrictEqual(resolveColor('magenta'), '\u001b[35m')
+  deepStrictEqual(resolveColor('redBright'), '\u001b[91m')
+  deepStrictEqual(resolveColor('\u001b[38;5;208m'), '\u001b[38;5;208m')
+  deepStrictEqual(resolveColor('toString'), 'toString')
+})
+
+test('the ASCII theme should only use ASCII symbols', () => {
+  deepStrictEqual(
+    Object.values(themes.ascii.symbols).filter(symbol => !/^[\x20-\x7e]+$/.test(symbol)),
+    []
+  )
+})